@@ -0,0 +1,214 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { formatCost, type PlanUsage } from "@/lib/plan";
+import type { UsageSummary } from "@/lib/usage";
+
+const RANGES = [7, 30, 90];
+// Kept for the tab only, so the token is not typed again on every range change.
+const TOKEN_KEY = "bsg_admin_token";
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl border border-zinc-800 bg-zinc-950/40 p-3">
+      <div className="text-xs uppercase tracking-wide text-zinc-500">{label}</div>
+      <div className="mt-1 text-xl font-bold text-zinc-100">{value}</div>
+    </div>
+  );
+}
+
+function UsageCells({ usage }: { usage: PlanUsage }) {
+  return (
+    <>
+      <td className="px-3 py-2 text-right">{usage.calls}</td>
+      <td className="px-3 py-2 text-right">{usage.promptTokens.toLocaleString("en-US")}</td>
+      <td className="px-3 py-2 text-right">
+        {usage.completionTokens.toLocaleString("en-US")}
+        {usage.estimated ? "*" : ""}
+      </td>
+      <td className="px-3 py-2 text-right font-semibold">{formatCost(usage.cost)}</td>
+    </>
+  );
+}
+
+const th = "px-3 py-2 text-right font-medium";
+
+type Summary = UsageSummary & { since: string };
+
+async function fetchUsage(token: string, days: number): Promise<{ summary: Summary } | { error: string }> {
+  const res = await fetch(`/api/admin/usage?days=${days}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  }).catch(() => null);
+  if (!res) return { error: "Could not reach the server." };
+  const data = await res.json().catch(() => ({}));
+  if (res.ok) return { summary: data };
+  return { error: res.status === 401 ? "That token was not accepted." : data?.error || "Could not load usage." };
+}
+
+// Model spend from the server's usage ledger. The token goes to /api/admin/usage
+// in an Authorization header, never in the URL.
+export default function UsagePage() {
+  const [token, setToken] = useState("");
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [error, setError] = useState("");
+
+  function show(adminToken: string, range: number, result: Awaited<ReturnType<typeof fetchUsage>>) {
+    if ("error" in result) {
+      sessionStorage.removeItem(TOKEN_KEY);
+      setSummary(null);
+      setError(result.error);
+      return;
+    }
+    sessionStorage.setItem(TOKEN_KEY, adminToken);
+    setError("");
+    setDays(range);
+    setSummary(result.summary);
+  }
+
+  function load(adminToken: string, range: number) {
+    fetchUsage(adminToken, range).then((result) => show(adminToken, range, result));
+  }
+
+  useEffect(() => {
+    const saved = sessionStorage.getItem(TOKEN_KEY);
+    if (saved) fetchUsage(saved, 30).then((result) => show(saved, 30, result));
+  }, []);
+
+  if (!summary) {
+    return (
+      <div className="min-h-screen bg-zinc-950 text-zinc-100">
+        <form
+          className="mx-auto max-w-md px-6 py-10"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (token.trim()) load(token.trim(), days);
+          }}
+        >
+          <h1 className="text-3xl font-extrabold tracking-tight">Model usage</h1>
+          <input
+            type="password"
+            className="mt-6 w-full rounded-xl border border-zinc-800 bg-zinc-950/60 p-3 text-sm outline-none focus:border-emerald-500/60"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            placeholder="ADMIN_TOKEN"
+          />
+          <button
+            type="submit"
+            className="mt-3 rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900"
+          >
+            Show usage
+          </button>
+          {error ? (
+            <div className="mt-3 rounded-xl border border-red-900/50 bg-red-950/30 p-3 text-sm text-red-200">{error}</div>
+          ) : null}
+        </form>
+      </div>
+    );
+  }
+
+  const { since, total } = summary;
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-100">
+      <div className="mx-auto max-w-5xl px-6 py-10">
+        <h1 className="text-3xl font-extrabold tracking-tight">Model usage</h1>
+        <p className="mt-1 text-sm text-zinc-400">
+          Spend since {since} (UTC), from provider token counts and the price table.
+        </p>
+
+        <div className="mt-4 flex gap-2 text-sm">
+          {RANGES.map((n) => (
+            <button
+              key={n}
+              onClick={() => load(sessionStorage.getItem(TOKEN_KEY) || token.trim(), n)}
+              className={`rounded-lg border px-3 py-1 ${
+                n === days ? "border-emerald-500/60 text-emerald-300" : "border-zinc-800 text-zinc-400 hover:border-zinc-700"
+              }`}
+            >
+              Last {n} days
+            </button>
+          ))}
+        </div>
+
+        <div className="mt-6 grid grid-cols-2 gap-2 md:grid-cols-4">
+          <Stat label="Spend" value={formatCost(total?.cost ?? 0)} />
+          <Stat label="Model calls" value={String(total?.calls ?? 0)} />
+          <Stat
+            label="Tokens"
+            value={((total?.promptTokens ?? 0) + (total?.completionTokens ?? 0)).toLocaleString("en-US")}
+          />
+          <Stat label="Plans" value={String(summary.byPlan.filter((p) => p.planId).length)} />
+        </div>
+
+        {summary.unpriced.length ? (
+          <div className="mt-4 rounded-xl border border-amber-900/50 bg-amber-950/30 p-3 text-sm text-amber-200">
+            No price set for {summary.unpriced.join(", ")}, so those calls count as $0. Add them to LLM_PRICES.
+          </div>
+        ) : null}
+        {total?.estimated ? (
+          <div className="mt-2 text-xs text-zinc-500">
+            * Includes calls where the provider sent no token counts and they were estimated from the text.
+          </div>
+        ) : null}
+
+        <h2 className="mt-10 text-xl font-bold">By day</h2>
+        {summary.byDay.length ? (
+          <table className="mt-3 w-full text-sm">
+            <thead className="text-zinc-500">
+              <tr className="border-b border-zinc-800">
+                <th className="px-3 py-2 text-left font-medium">Day</th>
+                <th className={th}>Calls</th>
+                <th className={th}>Prompt tokens</th>
+                <th className={th}>Completion tokens</th>
+                <th className={th}>Cost</th>
+              </tr>
+            </thead>
+            <tbody className="text-zinc-300">
+              {summary.byDay.map((d) => (
+                <tr key={d.day} className="border-b border-zinc-900">
+                  <td className="px-3 py-2">{d.day}</td>
+                  <UsageCells usage={d.usage} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="mt-3 text-sm text-zinc-500">No model calls in this range.</p>
+        )}
+
+        <h2 className="mt-10 text-xl font-bold">By plan</h2>
+        {summary.byPlan.length ? (
+          <table className="mt-3 w-full text-sm">
+            <thead className="text-zinc-500">
+              <tr className="border-b border-zinc-800">
+                <th className="px-3 py-2 text-left font-medium">Plan</th>
+                <th className="px-3 py-2 text-left font-medium">Last call</th>
+                <th className={th}>Calls</th>
+                <th className={th}>Prompt tokens</th>
+                <th className={th}>Completion tokens</th>
+                <th className={th}>Cost</th>
+              </tr>
+            </thead>
+            <tbody className="text-zinc-300">
+              {summary.byPlan.map((p) => (
+                <tr key={p.planId} className="border-b border-zinc-900">
+                  <td className="max-w-xs px-3 py-2">
+                    <div className="truncate">{p.planId ? p.idea : "Not tied to a plan"}</div>
+                    <div className="truncate text-xs text-zinc-500">
+                      {p.planId || "Failed generations and compare scorecards"}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-zinc-500">{new Date(p.lastAt).toLocaleString()}</td>
+                  <UsageCells usage={p.usage} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="mt-3 text-sm text-zinc-500">No model calls in this range.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { isAdminToken, loadUsageSummary } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+const RANGES = [7, 30, 90];
+
+/**
+ * Model spend from the usage ledger for the admin page. Needs
+ * `Authorization: Bearer <ADMIN_TOKEN>`; `?days=` is 7, 30 (default) or 90.
+ */
+export async function GET(req: Request) {
+  try {
+    const token = req.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (!isAdminToken(token)) {
+      return NextResponse.json({ error: "Not authorized" }, { status: 401 });
+    }
+
+    const daysParam = Number(new URL(req.url).searchParams.get("days"));
+    const days = RANGES.includes(daysParam) ? daysParam : 30;
+    return NextResponse.json(await loadUsageSummary(days), { headers: { "Cache-Control": "no-store" } });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { COACH_MAX_MESSAGE, coerceCoachMessages } from "@/lib/coach";
+import { getProvider, ProviderError } from "@/lib/llm";
+import { coercePlan, planShape } from "@/lib/plan";
+import { buildCoachMessages } from "@/lib/prompt";
+import {
+  checkRequestSize,
+  quotaHeaders,
+  RateLimitError,
+  takeRequest,
+  withTokenBudget,
+  type Quota,
+} from "@/lib/ratelimit";
+import { coerceChecks } from "@/lib/store";
+import { meterUsage, recordUsage, type MeteredProvider } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+/**
+ * Answers a question about a plan. Body: { plan, checks?, day?, messages }
+ * where `messages` is the conversation so far ending with the question, and
+ * `day` is the sprint day the tasks context comes from. Returns { reply, usage }.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (!body?.plan || typeof body.plan !== "object") {
+      return NextResponse.json({ error: "Missing plan" }, { status: 400 });
+    }
+    const tooLarge = checkRequestSize(body);
+    if (tooLarge) {
+      return NextResponse.json({ error: tooLarge }, { status: 413 });
+    }
+
+    const messages = coerceCoachMessages(body?.messages);
+    const question = messages[messages.length - 1];
+    if (!question || question.role !== "user") {
+      return NextResponse.json({ error: "Missing question" }, { status: 400 });
+    }
+    if (question.content.length > COACH_MAX_MESSAGE) {
+      return NextResponse.json(
+        { error: `Keep questions under ${COACH_MAX_MESSAGE} characters` },
+        { status: 400 }
+      );
+    }
+
+    const plan = coercePlan(body.plan, "", {});
+    const checks = coerceChecks(body?.checks) ?? {};
+    const day = Math.min(Math.max(Math.round(Number(body?.day)) || 1, 1), planShape(plan).days);
+
+    let provider: MeteredProvider;
+    try {
+      provider = meterUsage(withTokenBudget(getProvider()));
+    } catch (err: unknown) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : "LLM provider is not configured" },
+        { status: 500 }
+      );
+    }
+
+    let quota: Quota;
+    try {
+      quota = await takeRequest(req);
+    } catch (err: unknown) {
+      if (err instanceof RateLimitError) {
+        return NextResponse.json(
+          { error: err.message, retryAfter: err.retryAfter },
+          { status: 429, headers: { "Retry-After": String(err.retryAfter) } }
+        );
+      }
+      throw err;
+    }
+
+    let reply: string;
+    try {
+      const result = await provider.complete({
+        task: "coach",
+        messages: buildCoachMessages(plan, checks, day, messages),
+      });
+      reply = result.text.trim();
+    } catch (err: unknown) {
+      await recordUsage(provider, "coach", plan);
+      if (err instanceof ProviderError) {
+        return NextResponse.json({ error: err.message, raw: err.raw }, { status: 500 });
+      }
+      throw err;
+    }
+    const usage = await recordUsage(provider, "coach", plan);
+    if (!reply) {
+      return NextResponse.json({ error: "The coach returned an empty reply. Try again." }, { status: 500 });
+    }
+
+    return NextResponse.json({ reply, usage }, { headers: quotaHeaders(quota) });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown server error" },
+      { status: 500 }
+    );
+  }
+}
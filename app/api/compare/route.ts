@@ -0,0 +1,162 @@
+import { NextResponse } from "next/server";
+import {
+  coerceScorecard,
+  MAX_CANDIDATES,
+  MIN_CANDIDATES,
+  type Candidate,
+  type CompareResult,
+  type Comparison,
+} from "@/lib/compare";
+import { completeValidated, planFromResult, planRequest, readPlanOptions, type ValidatedResult } from "@/lib/generate";
+import { getProvider, ModelOutputError, ProviderError, type LLMProvider } from "@/lib/llm";
+import { coerceInputs, safeStr, type Plan } from "@/lib/plan";
+import { beginPlan, lookupPlan, planCacheKey } from "@/lib/planCache";
+import { buildPlanMessages, buildScorecardMessages } from "@/lib/prompt";
+import {
+  checkInputLengths,
+  quotaHeaders,
+  RateLimitError,
+  takeRequest,
+  withTokenBudget,
+  type Quota,
+} from "@/lib/ratelimit";
+import { SCORECARD_JSON_SCHEMA, validatePlan, validateScorecard } from "@/lib/schema";
+import { loadPrices, meterUsage, recordUsage, type ModelPrice } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+/**
+ * Generates a plan for each candidate in one batch and scores them against
+ * each other. Body: { candidates: [{ idea, inputs }], steps?, days?, template? }.
+ * A candidate that fails to generate comes back with an `error` and is left
+ * out of the scorecard; the other plans still return.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    const raw: unknown[] = Array.isArray(body?.candidates) ? body.candidates : [];
+    const candidates: Candidate[] = raw
+      .map((c) => ({ idea: safeStr((c as { idea?: unknown })?.idea), inputs: coerceInputs(c) }))
+      .filter((c) => c.idea);
+    if (candidates.length < MIN_CANDIDATES || candidates.length > MAX_CANDIDATES) {
+      return NextResponse.json(
+        { error: `candidates must list ${MIN_CANDIDATES}–${MAX_CANDIDATES} ideas` },
+        { status: 400 }
+      );
+    }
+
+    const tooLong = candidates.map((c) => checkInputLengths(c.idea, c.inputs)).find(Boolean);
+    if (tooLong) {
+      return NextResponse.json({ error: tooLong }, { status: 400 });
+    }
+
+    const options = readPlanOptions(body);
+    if ("error" in options) {
+      return NextResponse.json({ error: options.error }, { status: 400 });
+    }
+    const { shape, template } = options;
+
+    let provider: LLMProvider;
+    let prices: Record<string, ModelPrice>;
+    try {
+      provider = withTokenBudget(getProvider());
+      prices = loadPrices();
+    } catch (err: unknown) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : "LLM provider is not configured" },
+        { status: 500 }
+      );
+    }
+
+    // Candidates share the plan cache with /api/generate; only those with
+    // neither a cached reply nor a call in flight count against the limits.
+    const keys = candidates.map((c) => planCacheKey(provider, c.idea, c.inputs, shape, template.id));
+    const misses = keys.filter((key) => !lookupPlan(key)).length;
+
+    let quota: Quota;
+    try {
+      quota = await takeRequest(req, misses + 1);
+    } catch (err: unknown) {
+      if (err instanceof RateLimitError) {
+        return NextResponse.json(
+          { error: err.message, retryAfter: err.retryAfter },
+          { status: 429, headers: { "Retry-After": String(err.retryAfter) } }
+        );
+      }
+      throw err;
+    }
+
+    const results: CompareResult[] = await Promise.all(
+      candidates.map(async ({ idea, inputs }, i) => {
+        // One meter per candidate so each plan carries only its own usage.
+        const metered = meterUsage(provider, prices);
+        const cached = lookupPlan(keys[i]);
+        const call = cached ? null : beginPlan(keys[i]);
+        try {
+          let result: ValidatedResult;
+          if (cached) {
+            result = await cached.result;
+          } else {
+            result = await completeValidated(
+              metered,
+              planRequest(buildPlanMessages(idea, inputs, shape, template)),
+              (r) => validatePlan(r, shape)
+            );
+          }
+          const plan = planFromResult(result, idea, inputs, shape, template.id);
+          if (cached?.createdAt && plan.validation) plan.validation.cachedAt = cached.createdAt;
+          if (call) {
+            plan.usage = await recordUsage(metered, "compare", plan);
+            call.done(result, !result.violations.length && !plan.validation?.fallbacks.length);
+          }
+          return { idea, plan };
+        } catch (err: unknown) {
+          if (call) {
+            await recordUsage(metered, "compare", { id: "", idea });
+            call.fail(err);
+          }
+          if (err instanceof ProviderError || err instanceof ModelOutputError) return { idea, error: err.message };
+          throw err;
+        }
+      })
+    );
+
+    const plans = results.map((r) => r.plan).filter((p): p is Plan => !!p);
+    const comparison: Comparison = { results, createdAt: new Date().toISOString() };
+    if (plans.length < MIN_CANDIDATES) return NextResponse.json(comparison, { headers: quotaHeaders(quota) });
+
+    // The scorecard is about every plan at once, so it is not charged to any of them.
+    const scorer = meterUsage(provider, prices);
+    const scoredIdeas = { id: "", idea: plans.map((p) => p.idea).join(" vs ") };
+    try {
+      const scored = await completeValidated(
+        scorer,
+        {
+          task: "score",
+          json: true,
+          schema: { name: "plan_scorecard", schema: SCORECARD_JSON_SCHEMA },
+          messages: buildScorecardMessages(plans),
+        },
+        (r) => validateScorecard(r, plans.length)
+      );
+      comparison.scorecard = coerceScorecard(scored.parsed, plans.length);
+    } catch (err: unknown) {
+      if (err instanceof ProviderError || err instanceof ModelOutputError) {
+        // The plans are still worth showing; the page reports the missing scorecard.
+        comparison.scorecardError = err.message;
+        return NextResponse.json(comparison, { headers: quotaHeaders(quota) });
+      }
+      throw err;
+    } finally {
+      await recordUsage(scorer, "compare", scoredIdeas);
+    }
+
+    return NextResponse.json(comparison, { headers: quotaHeaders(quota) });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { exportFilename } from "@/lib/export";
+import { renderPlanPdf } from "@/lib/pdf";
+import { coercePlan } from "@/lib/plan";
+import { checkRequestSize } from "@/lib/ratelimit";
+import { coerceChecks } from "@/lib/store";
+
+export const runtime = "nodejs";
+
+/** Body: { plan, checks?, kind?: "plan" | "calendar" }. Responds with the PDF file. */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (!body?.plan || typeof body.plan !== "object") {
+      return NextResponse.json({ error: "Missing plan" }, { status: 400 });
+    }
+    // Rendering runs on the server thread, so oversized plans stop here.
+    const tooLarge = checkRequestSize(body);
+    if (tooLarge) {
+      return NextResponse.json({ error: tooLarge }, { status: 413 });
+    }
+
+    const plan = coercePlan(body.plan, "", {});
+    const kind = body?.kind === "calendar" ? "calendar" : "plan";
+    const pdf = await renderPlanPdf(plan, kind, coerceChecks(body.checks));
+
+    const name = exportFilename(plan, kind, "pdf");
+    return new Response(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${name}"`,
+      },
+    });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown server error" },
+      { status: 500 }
+    );
+  }
+}
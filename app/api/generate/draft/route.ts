@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { completeValidated, type ValidatedResult } from "@/lib/generate";
+import { getProvider, ModelOutputError, ProviderError } from "@/lib/llm";
+import { coerceDraft, coercePlan } from "@/lib/plan";
+import { buildDraftMessages } from "@/lib/prompt";
+import {
+  checkRequestSize,
+  quotaHeaders,
+  RateLimitError,
+  takeRequest,
+  withTokenBudget,
+  type Quota,
+} from "@/lib/ratelimit";
+import { DRAFT_JSON_SCHEMA, validateDraft } from "@/lib/schema";
+import { meterUsage, recordUsage, type MeteredProvider } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+/**
+ * Writes the deliverable named in one step's `output`. Body: { plan, index }.
+ * Returns only the draft and the call's `usage`; the client stores both on
+ * the plan.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (!body?.plan || typeof body.plan !== "object") {
+      return NextResponse.json({ error: "Missing plan" }, { status: 400 });
+    }
+    const tooLarge = checkRequestSize(body);
+    if (tooLarge) {
+      return NextResponse.json({ error: tooLarge }, { status: 413 });
+    }
+
+    const plan = coercePlan(body.plan, "", {});
+    const index = body?.index;
+    if (typeof index !== "number" || !Number.isInteger(index) || !plan.steps[index]) {
+      return NextResponse.json({ error: "Invalid step index" }, { status: 400 });
+    }
+
+    let provider: MeteredProvider;
+    try {
+      provider = meterUsage(withTokenBudget(getProvider()));
+    } catch (err: unknown) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : "LLM provider is not configured" },
+        { status: 500 }
+      );
+    }
+
+    let quota: Quota;
+    try {
+      quota = await takeRequest(req);
+    } catch (err: unknown) {
+      if (err instanceof RateLimitError) {
+        return NextResponse.json(
+          { error: err.message, retryAfter: err.retryAfter },
+          { status: 429, headers: { "Retry-After": String(err.retryAfter) } }
+        );
+      }
+      throw err;
+    }
+
+    let result: ValidatedResult;
+    try {
+      result = await completeValidated(
+        provider,
+        {
+          task: "draft",
+          json: true,
+          schema: { name: "step_draft", schema: DRAFT_JSON_SCHEMA },
+          messages: buildDraftMessages(plan, index),
+        },
+        validateDraft
+      );
+    } catch (err: unknown) {
+      await recordUsage(provider, "draft", plan);
+      if (err instanceof ProviderError || err instanceof ModelOutputError) {
+        return NextResponse.json({ error: err.message, raw: err.raw }, { status: 500 });
+      }
+      throw err;
+    }
+
+    const usage = await recordUsage(provider, "draft", plan);
+    const draft = coerceDraft({ ...(result.parsed as object), createdAt: new Date().toISOString() });
+    if (!draft) {
+      return NextResponse.json({ error: "The model returned an empty draft. Try again." }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      {
+        draft,
+        validation: { repairs: result.repairs, violations: result.violations },
+        usage,
+      },
+      { headers: quotaHeaders(quota) }
+    );
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown server error" },
+      { status: 500 }
+    );
+  }
+}
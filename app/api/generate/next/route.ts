@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { completeValidated, planFromResult, planRequest, type ValidatedResult } from "@/lib/generate";
+import { getProvider, ModelOutputError, ProviderError } from "@/lib/llm";
+import { coercePlan, coerceRetro, planShape } from "@/lib/plan";
+import { buildNextSprintMessages } from "@/lib/prompt";
+import {
+  checkInputLengths,
+  checkRequestSize,
+  quotaHeaders,
+  RateLimitError,
+  takeRequest,
+  withTokenBudget,
+  type Quota,
+} from "@/lib/ratelimit";
+import { validatePlan } from "@/lib/schema";
+import { DEFAULT_TEMPLATE_ID } from "@/lib/templates";
+import { meterUsage, recordUsage, type MeteredProvider } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+/**
+ * Plans the sprint after a finished one. Body: { plan, retro } where `retro`
+ * lists the done and skipped tasks, KPI results and notes. Returns the new
+ * plan with the same idea, inputs and shape, linked to `plan` by `parentId`.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (!body?.plan || typeof body.plan !== "object") {
+      return NextResponse.json({ error: "Missing plan" }, { status: 400 });
+    }
+    const tooLarge = checkRequestSize(body);
+    if (tooLarge) {
+      return NextResponse.json({ error: tooLarge }, { status: 413 });
+    }
+    const retro = coerceRetro(body?.retro);
+    if (!retro) {
+      return NextResponse.json({ error: "Missing retro" }, { status: 400 });
+    }
+
+    const parent = coercePlan(body.plan, "", {});
+    if (!parent.idea) {
+      return NextResponse.json({ error: "The plan has no business idea" }, { status: 400 });
+    }
+    const tooLong = checkInputLengths(parent.idea, parent.inputs);
+    if (tooLong) {
+      return NextResponse.json({ error: tooLong }, { status: 400 });
+    }
+
+    let provider: MeteredProvider;
+    try {
+      provider = meterUsage(withTokenBudget(getProvider()));
+    } catch (err: unknown) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : "LLM provider is not configured" },
+        { status: 500 }
+      );
+    }
+
+    let quota: Quota;
+    try {
+      quota = await takeRequest(req);
+    } catch (err: unknown) {
+      if (err instanceof RateLimitError) {
+        return NextResponse.json(
+          { error: err.message, retryAfter: err.retryAfter },
+          { status: 429, headers: { "Retry-After": String(err.retryAfter) } }
+        );
+      }
+      throw err;
+    }
+
+    const shape = planShape(parent);
+    const sprint = (parent.sprint ?? 1) + 1;
+
+    let result: ValidatedResult;
+    try {
+      result = await completeValidated(
+        provider,
+        planRequest(buildNextSprintMessages(parent, retro, sprint)),
+        (raw) => validatePlan(raw, shape)
+      );
+    } catch (err: unknown) {
+      await recordUsage(provider, "next", { id: "", idea: parent.idea });
+      if (err instanceof ProviderError || err instanceof ModelOutputError) {
+        return NextResponse.json({ error: err.message, raw: err.raw }, { status: 500 });
+      }
+      throw err;
+    }
+
+    const plan = planFromResult(
+      result,
+      parent.idea,
+      parent.inputs,
+      shape,
+      parent.template ?? DEFAULT_TEMPLATE_ID,
+      { parentId: parent.id, sprint }
+    );
+    plan.usage = await recordUsage(provider, "next", plan);
+    return NextResponse.json(plan, { headers: quotaHeaders(quota) });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { completeValidated, type ValidatedResult } from "@/lib/generate";
+import { getProvider, ModelOutputError, ProviderError } from "@/lib/llm";
+import { coercePlan, coerceReport, planShape } from "@/lib/plan";
+import { buildReportMessages } from "@/lib/prompt";
+import {
+  checkInputLengths,
+  checkRequestSize,
+  quotaHeaders,
+  RateLimitError,
+  takeRequest,
+  withTokenBudget,
+  type Quota,
+} from "@/lib/ratelimit";
+import { REPORT_JSON_SCHEMA, validateReport } from "@/lib/schema";
+import { getTemplate } from "@/lib/templates";
+import { meterUsage, recordUsage, type MeteredProvider } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+/**
+ * Writes the "validate first" report for a plan's idea and inputs.
+ * Body: { plan }. Returns only the report and the call's `usage`; the client
+ * stores the report on the plan as `validationReport`.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (!body?.plan || typeof body.plan !== "object") {
+      return NextResponse.json({ error: "Missing plan" }, { status: 400 });
+    }
+    const tooLarge = checkRequestSize(body);
+    if (tooLarge) {
+      return NextResponse.json({ error: tooLarge }, { status: 413 });
+    }
+
+    const plan = coercePlan(body.plan, "", {});
+    if (!plan.idea) {
+      return NextResponse.json({ error: "The plan has no business idea" }, { status: 400 });
+    }
+    const tooLong = checkInputLengths(plan.idea, plan.inputs);
+    if (tooLong) {
+      return NextResponse.json({ error: tooLong }, { status: 400 });
+    }
+
+    let provider: MeteredProvider;
+    try {
+      provider = meterUsage(withTokenBudget(getProvider()));
+    } catch (err: unknown) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : "LLM provider is not configured" },
+        { status: 500 }
+      );
+    }
+
+    let quota: Quota;
+    try {
+      quota = await takeRequest(req);
+    } catch (err: unknown) {
+      if (err instanceof RateLimitError) {
+        return NextResponse.json(
+          { error: err.message, retryAfter: err.retryAfter },
+          { status: 429, headers: { "Retry-After": String(err.retryAfter) } }
+        );
+      }
+      throw err;
+    }
+
+    let result: ValidatedResult;
+    try {
+      result = await completeValidated(
+        provider,
+        {
+          task: "report",
+          json: true,
+          schema: { name: "validation_report", schema: REPORT_JSON_SCHEMA },
+          messages: buildReportMessages(plan.idea, plan.inputs, planShape(plan), getTemplate(plan.template)),
+        },
+        validateReport
+      );
+    } catch (err: unknown) {
+      await recordUsage(provider, "report", plan);
+      if (err instanceof ProviderError || err instanceof ModelOutputError) {
+        return NextResponse.json({ error: err.message, raw: err.raw }, { status: 500 });
+      }
+      throw err;
+    }
+
+    const usage = await recordUsage(provider, "report", plan);
+    return NextResponse.json(
+      {
+        report: coerceReport({ ...(result.parsed as object), createdAt: new Date().toISOString() }),
+        validation: { repairs: result.repairs, violations: result.violations },
+        usage,
+      },
+      { headers: quotaHeaders(quota) }
+    );
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown server error" },
+      { status: 500 }
+    );
+  }
+}
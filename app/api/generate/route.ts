@@ -1,101 +1,174 @@
 import { NextResponse } from "next/server";
+import { getProvider, ModelOutputError, ProviderError, type ChatMessage } from "@/lib/llm";
+import { scanArray } from "@/lib/llm/partialJson";
+import {
+  completeValidated,
+  planFromResult,
+  planRequest,
+  readPlanOptions,
+  type ValidatedResult,
+} from "@/lib/generate";
+import { beginPlan, lookupPlan, planCacheKey, type CachedPlan, type PlanCall } from "@/lib/planCache";
+import { buildPlanMessages } from "@/lib/prompt";
+import {
+  checkInputLengths,
+  quotaHeaders,
+  RateLimitError,
+  readQuota,
+  takeRequest,
+  withTokenBudget,
+  type Quota,
+} from "@/lib/ratelimit";
+import { validatePlan } from "@/lib/schema";
+import { meterUsage, recordUsage, type MeteredProvider } from "@/lib/usage";
+import type { StrategyTemplate } from "@/lib/templates";
+import {
+  coerceCalendarDays,
+  coerceStep,
+  padCalendarDays,
+  withNewTaskIds,
+  type Inputs,
+  type Plan,
+  type PlanShape,
+  type PlanStreamEvent,
+} from "@/lib/plan";
 
 export const runtime = "nodejs";
 
-type Inputs = {
-  targetCustomer?: string;
-  coreOffer?: string;
-  differentiator?: string;
-  pricePoint?: string;
-  geography?: string;
-  goal14Day?: string;
-  notes?: string;
-};
-
-type PlanStep = {
-  title: string;
-  summary: string;
-  whatThisDoes: string[]; // explanation bullets (or short paragraphs)
-  howTo: string[];        // checklist bullets
-  output: string;         // tangible deliverable
-};
-
-type CalendarDay = {
-  day: number;            // 1..14
-  title: string;
-  tasks: string[];
-};
-
-type PlanObject = {
-  id: string;
-  createdAt: string;
-  idea: string;
-  inputs: Inputs;
-  steps: PlanStep[];
-  calendarDays: CalendarDay[];
-};
-
-function uid() {
-  return "plan_" + Math.random().toString(16).slice(2) + Date.now().toString(16);
-}
-
 function cleanStr(x: unknown) {
   return typeof x === "string" ? x.trim() : "";
 }
 
-function ensureArrayOfStrings(x: unknown): string[] {
-  if (!Array.isArray(x)) return [];
-  return x.map((v) => (typeof v === "string" ? v.trim() : "")).filter(Boolean);
+function ndjson(
+  headers: Record<string, string>,
+  run: (send: (ev: PlanStreamEvent) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (ev: PlanStreamEvent) =>
+        controller.enqueue(encoder.encode(JSON.stringify(ev) + "\n"));
+      try {
+        await run(send);
+      } catch (err: unknown) {
+        send({
+          type: "error",
+          error: err instanceof Error ? err.message : "Unknown server error",
+          raw: err instanceof ProviderError || err instanceof ModelOutputError ? err.raw : undefined,
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+      ...headers,
+    },
+  });
 }
 
-function coercePlan(raw: any, idea: string, inputs: Inputs): PlanObject {
-  const stepsRaw = Array.isArray(raw?.steps) ? raw.steps : [];
-  const steps: PlanStep[] = stepsRaw.slice(0, 3).map((s: any, i: number) => ({
-    title: cleanStr(s?.title) || `Step ${i + 1}`,
-    summary: cleanStr(s?.summary) || "",
-    whatThisDoes: ensureArrayOfStrings(s?.whatThisDoes),
-    howTo: ensureArrayOfStrings(s?.howTo),
-    output: cleanStr(s?.output) || "",
-  }));
-
-  // fallback if model returns weak structure
-  while (steps.length < 3) {
-    steps.push({
-      title: `Step ${steps.length + 1}`,
-      summary: "",
-      whatThisDoes: [],
-      howTo: [],
-      output: "",
-    });
-  }
+/**
+ * NDJSON response: one `step` event per finished step, a `calendar` event once
+ * the calendar array closes, then the full `plan` (or an `error`).
+ */
+function streamPlan(
+  provider: MeteredProvider,
+  messages: ChatMessage[],
+  idea: string,
+  inputs: Inputs,
+  shape: PlanShape,
+  template: StrategyTemplate,
+  call: PlanCall,
+  headers: Record<string, string>
+): Response {
+  return ndjson(headers, async (send) => {
+    let text = "";
+    let sentSteps = 0;
+    let sentCalendar = false;
 
-  const calRaw = Array.isArray(raw?.calendarDays) ? raw.calendarDays : [];
-  const calendarDays: CalendarDay[] = calRaw
-    .filter((d: any) => typeof d === "object" && d)
-    .slice(0, 14)
-    .map((d: any, idx: number) => ({
-      day: typeof d?.day === "number" ? d.day : idx + 1,
-      title: cleanStr(d?.title) || `Day ${idx + 1}`,
-      tasks: ensureArrayOfStrings(d?.tasks),
-    }));
-
-  while (calendarDays.length < 14) {
-    const n = calendarDays.length + 1;
-    calendarDays.push({
-      day: n,
-      title: `Day ${n}`,
-      tasks: ["Do 30–60 minutes of execution based on your Step plan."],
-    });
-  }
+    const flush = () => {
+      const steps = scanArray(text, "steps");
+      while (sentSteps < Math.min(steps.items.length, shape.steps)) {
+        try {
+          const step = coerceStep(JSON.parse(steps.items[sentSteps]), sentSteps);
+          send({ type: "step", index: sentSteps, step });
+        } catch {
+          // malformed element; the final plan event still carries a coerced step
+        }
+        sentSteps++;
+      }
+
+      if (sentCalendar) return;
+      const cal = scanArray(text, "calendarDays");
+      if (!cal.closed) return;
+      sentCalendar = true;
+      try {
+        const days = coerceCalendarDays(JSON.parse(`[${cal.items.join(",")}]`), shape.days);
+        send({ type: "calendar", calendarDays: withNewTaskIds(padCalendarDays(days, [], shape.days)) });
+      } catch {
+        // left to the final plan event
+      }
+    };
 
-  return {
-    id: cleanStr(raw?.id) || uid(),
-    createdAt: cleanStr(raw?.createdAt) || new Date().toISOString(),
-    idea: cleanStr(raw?.idea) || idea,
-    inputs: typeof raw?.inputs === "object" && raw?.inputs ? raw.inputs : inputs,
-    steps,
-    calendarDays,
-  };
+    try {
+      const req = planRequest(messages);
+      if (provider.stream) {
+        for await (const delta of provider.stream(req)) {
+          text += delta;
+          flush();
+        }
+      } else {
+        text = (await provider.complete(req)).text;
+        flush();
+      }
+
+      // Repairs run as plain completions; the plan event replaces any streamed steps.
+      const result = await completeValidated(provider, req, (raw) => validatePlan(raw, shape), text);
+      send({ type: "plan", plan: await finishPlan(provider, call, result, idea, inputs, shape, template.id) });
+    } catch (err: unknown) {
+      await recordUsage(provider, "generate", { id: "", idea });
+      call.fail(err);
+      throw err;
+    }
+  });
+}
+
+/** Replays a cached or shared result as the same events a live stream sends. */
+function replayPlan(
+  cached: CachedPlan,
+  toPlan: (result: ValidatedResult) => Plan,
+  headers: Record<string, string>
+): Response {
+  return ndjson(headers, async (send) => {
+    const plan = toPlan(await cached.result);
+    plan.steps.forEach((step, index) => send({ type: "step", index, step }));
+    if (plan.calendarDays) send({ type: "calendar", calendarDays: plan.calendarDays });
+    send({ type: "plan", plan });
+  });
+}
+
+/**
+ * The plan for a fresh model reply, with what the call cost. Clean replies are
+ * kept for identical requests.
+ */
+async function finishPlan(
+  provider: MeteredProvider,
+  call: PlanCall,
+  result: ValidatedResult,
+  idea: string,
+  inputs: Inputs,
+  shape: PlanShape,
+  templateId: string
+) {
+  const plan = planFromResult(result, idea, inputs, shape, templateId);
+  plan.usage = await recordUsage(provider, "generate", plan);
+  call.done(result, !result.violations.length && !plan.validation?.fallbacks.length);
+  return plan;
 }
 
 export async function POST(req: Request) {
@@ -109,7 +182,7 @@ export async function POST(req: Request) {
       differentiator: cleanStr(body?.differentiator),
       pricePoint: cleanStr(body?.pricePoint),
       geography: cleanStr(body?.geography),
-      goal14Day: cleanStr(body?.goal14Day),
+      goal: cleanStr(body?.goal) || cleanStr(body?.goal14Day),
       notes: cleanStr(body?.notes),
     };
 
@@ -117,120 +190,88 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Missing business idea" }, { status: 400 });
     }
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: "Missing OPENAI_API_KEY in .env.local" },
-        { status: 500 }
-      );
+    const tooLong = checkInputLengths(idea, inputs);
+    if (tooLong) {
+      return NextResponse.json({ error: tooLong }, { status: 400 });
     }
 
-    const system = `
-You are a senior growth strategist.
-Return ONLY valid JSON. No markdown. No extra commentary.
-
-Goal:
-- Create a 3-step plan where EACH step includes:
-  - title
-  - summary (1–2 sentences)
-  - whatThisDoes (2–5 explanation bullets, practical)
-  - howTo (6–10 actionable checklist bullets with specifics)
-  - output (one concrete deliverable)
-
-Also return a 14-day calendar that adapts to the plan.
-Each day includes:
-- day (1..14)
-- title
-- tasks (2–4 tasks, specific and doable)
-
-IMPORTANT: Make the plan and calendar specific to the business idea and the optional inputs.
-`;
-
-    const user = `
-Business idea: ${idea}
-
-Optional inputs:
-- Target customer: ${inputs.targetCustomer || "(not provided)"}
-- Core offer: ${inputs.coreOffer || "(not provided)"}
-- Differentiator: ${inputs.differentiator || "(not provided)"}
-- Price point: ${inputs.pricePoint || "(not provided)"}
-- Geography / market: ${inputs.geography || "(not provided)"}
-- 14-day goal: ${inputs.goal14Day || "(not provided)"}
-- Extra notes: ${inputs.notes || "(not provided)"}
-
-Return JSON in this exact shape:
-{
-  "id": "string",
-  "createdAt": "ISO string",
-  "idea": "string",
-  "inputs": {
-    "targetCustomer": "string",
-    "coreOffer": "string",
-    "differentiator": "string",
-    "pricePoint": "string",
-    "geography": "string",
-    "goal14Day": "string",
-    "notes": "string"
-  },
-  "steps": [
-    {
-      "title": "string",
-      "summary": "string",
-      "whatThisDoes": ["string"],
-      "howTo": ["string"],
-      "output": "string"
+    const options = readPlanOptions(body);
+    if ("error" in options) {
+      return NextResponse.json({ error: options.error }, { status: 400 });
     }
-  ],
-  "calendarDays": [
-    { "day": 1, "title": "string", "tasks": ["string"] }
-  ]
-}
-`;
-
-    // Use Chat Completions with strict JSON object output
-    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4.1-mini",
-        temperature: 0.4,
-        response_format: { type: "json_object" },
-        messages: [
-          { role: "system", content: system.trim() },
-          { role: "user", content: user.trim() },
-        ],
-      }),
-    });
-
-    if (!resp.ok) {
-      const raw = await resp.text().catch(() => "");
+    const { shape, template } = options;
+
+    let provider: MeteredProvider;
+    try {
+      provider = meterUsage(withTokenBudget(getProvider()));
+    } catch (err: unknown) {
       return NextResponse.json(
-        { error: `OpenAI request failed (${resp.status})`, raw },
+        { error: err instanceof Error ? err.message : "LLM provider is not configured" },
         { status: 500 }
       );
     }
 
-    const data = await resp.json();
-    const text = data?.choices?.[0]?.message?.content ?? "";
+    // Identical requests reuse a cached reply or wait on the call already
+    // running, without spending a request; `fresh: true` always calls the model.
+    const key = planCacheKey(provider, idea, inputs, shape, template.id);
+    const cached = body?.fresh === true ? null : lookupPlan(key);
+    if (cached) {
+      const headers = { ...quotaHeaders(await readQuota(req)), "X-Cache": cached.status.toUpperCase() };
+      const toPlan = (result: ValidatedResult) => {
+        const plan = planFromResult(result, idea, inputs, shape, template.id);
+        if (cached.createdAt && plan.validation) plan.validation.cachedAt = cached.createdAt;
+        return plan;
+      };
+      if (body?.stream === true) return replayPlan(cached, toPlan, headers);
+
+      try {
+        return NextResponse.json(toPlan(await cached.result), { headers });
+      } catch (err: unknown) {
+        if (err instanceof ProviderError || err instanceof ModelOutputError) {
+          return NextResponse.json({ error: err.message, raw: err.raw }, { status: 500 });
+        }
+        throw err;
+      }
+    }
 
-    let parsed: any = null;
+    let quota: Quota;
     try {
-      parsed = JSON.parse(text);
-    } catch {
-      return NextResponse.json(
-        { error: "Model did not return valid JSON. Try again.", raw: String(text).slice(0, 2000) },
-        { status: 500 }
-      );
+      quota = await takeRequest(req);
+    } catch (err: unknown) {
+      if (err instanceof RateLimitError) {
+        return NextResponse.json(
+          { error: err.message, retryAfter: err.retryAfter },
+          { status: 429, headers: { "Retry-After": String(err.retryAfter) } }
+        );
+      }
+      throw err;
+    }
+
+    const call = beginPlan(key);
+    const headers = { ...quotaHeaders(quota), "X-Cache": "MISS" };
+    const messages = buildPlanMessages(idea, inputs, shape, template);
+
+    if (body?.stream === true) {
+      return streamPlan(provider, messages, idea, inputs, shape, template, call, headers);
+    }
+
+    let result: ValidatedResult;
+    try {
+      result = await completeValidated(provider, planRequest(messages), (raw) => validatePlan(raw, shape));
+    } catch (err: unknown) {
+      await recordUsage(provider, "generate", { id: "", idea });
+      call.fail(err);
+      if (err instanceof ProviderError || err instanceof ModelOutputError) {
+        return NextResponse.json({ error: err.message, raw: err.raw }, { status: 500 });
+      }
+      throw err;
     }
 
-    const plan = coercePlan(parsed, idea, inputs);
-    return NextResponse.json(plan);
-  } catch (err: any) {
+    const plan = await finishPlan(provider, call, result, idea, inputs, shape, template.id);
+    return NextResponse.json(plan, { headers });
+  } catch (err: unknown) {
     return NextResponse.json(
-      { error: err?.message || "Unknown server error" },
+      { error: err instanceof Error ? err.message : "Unknown server error" },
       { status: 500 }
     );
   }
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { linkedDays } from "@/lib/calendar";
+import { completeValidated, type ValidatedResult } from "@/lib/generate";
+import { getProvider, ModelOutputError, ProviderError } from "@/lib/llm";
+import { coerceCalendarDays, coercePlan, coerceStep, safeStr } from "@/lib/plan";
+import { buildStepMessages } from "@/lib/prompt";
+import {
+  checkRequestSize,
+  quotaHeaders,
+  RateLimitError,
+  takeRequest,
+  withTokenBudget,
+  type Quota,
+} from "@/lib/ratelimit";
+import { STEP_REPLY_JSON_SCHEMA, validateStepReply } from "@/lib/schema";
+import { meterUsage, recordUsage, type MeteredProvider } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+/**
+ * Regenerates (or refines, with `instruction`) one step of a plan.
+ * Body: { plan, index, instruction? }. Returns only the replacement step and
+ * the calendar days linked to it, plus the call's `usage`; the client merges
+ * them into the plan.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (!body?.plan || typeof body.plan !== "object") {
+      return NextResponse.json({ error: "Missing plan" }, { status: 400 });
+    }
+    const tooLarge = checkRequestSize(body);
+    if (tooLarge) {
+      return NextResponse.json({ error: tooLarge }, { status: 413 });
+    }
+
+    const plan = coercePlan(body.plan, "", {});
+    const index = body?.index;
+    if (typeof index !== "number" || !Number.isInteger(index) || !plan.steps[index]) {
+      return NextResponse.json({ error: "Invalid step index" }, { status: 400 });
+    }
+    const instruction = safeStr(body?.instruction).slice(0, 1000);
+
+    let provider: MeteredProvider;
+    try {
+      provider = meterUsage(withTokenBudget(getProvider()));
+    } catch (err: unknown) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : "LLM provider is not configured" },
+        { status: 500 }
+      );
+    }
+
+    let quota: Quota;
+    try {
+      quota = await takeRequest(req);
+    } catch (err: unknown) {
+      if (err instanceof RateLimitError) {
+        return NextResponse.json(
+          { error: err.message, retryAfter: err.retryAfter },
+          { status: 429, headers: { "Retry-After": String(err.retryAfter) } }
+        );
+      }
+      throw err;
+    }
+
+    const dayNumbers = plan.calendarDays?.length ? linkedDays(plan, index) : [];
+
+    let result: ValidatedResult;
+    try {
+      result = await completeValidated(
+        provider,
+        {
+          task: "step",
+          json: true,
+          schema: { name: "plan_step", schema: STEP_REPLY_JSON_SCHEMA },
+          messages: buildStepMessages(plan, index, dayNumbers, instruction),
+        },
+        (raw) => validateStepReply(raw, dayNumbers.length, plan.steps.length)
+      );
+    } catch (err: unknown) {
+      await recordUsage(provider, "step", plan);
+      if (err instanceof ProviderError || err instanceof ModelOutputError) {
+        return NextResponse.json({ error: err.message, raw: err.raw }, { status: 500 });
+      }
+      throw err;
+    }
+
+    const usage = await recordUsage(provider, "step", plan);
+    const parsed = result.parsed as { step?: unknown; calendarDays?: unknown };
+    const fallbacks: string[] = [];
+    const step = coerceStep(parsed?.step, index, fallbacks);
+    const calendarDays = (coerceCalendarDays(parsed?.calendarDays) ?? [])
+      .slice(0, dayNumbers.length)
+      .map((d, i) => ({ ...d, day: dayNumbers[i], step: index + 1 }));
+
+    return NextResponse.json(
+      {
+        step,
+        calendarDays,
+        validation: { repairs: result.repairs, violations: result.violations, fallbacks },
+        usage,
+      },
+      { headers: quotaHeaders(quota) }
+    );
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown server error" },
+      { status: 500 }
+    );
+  }
+}
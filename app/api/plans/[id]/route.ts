@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { coercePlan } from "@/lib/plan";
+import { checkRequestSize } from "@/lib/ratelimit";
+import { canEdit, coerceChecks, editTokenFrom, getPlanStore, isValidPlanId, publicPlan } from "@/lib/store";
+
+export const runtime = "nodejs";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// PUT and DELETE need the plan's edit token; the id alone is in every share link.
+function forbidden() {
+  return NextResponse.json({ error: "Missing or wrong edit token" }, { status: 403 });
+}
+
+function serverError(err: unknown) {
+  return NextResponse.json(
+    { error: err instanceof Error ? err.message : "Unknown server error" },
+    { status: 500 }
+  );
+}
+
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const { id } = await params;
+    const stored = isValidPlanId(id) ? await getPlanStore().get(id) : null;
+    if (!stored) return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+    return NextResponse.json(publicPlan(stored));
+  } catch (err: unknown) {
+    return serverError(err);
+  }
+}
+
+export async function PUT(req: Request, { params }: Ctx) {
+  try {
+    const { id } = await params;
+    if (!isValidPlanId(id)) {
+      return NextResponse.json({ error: "Invalid plan id" }, { status: 400 });
+    }
+
+    const store = getPlanStore();
+    const existing = await store.get(id);
+    if (!existing) return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+    if (!canEdit(existing, editTokenFrom(req))) return forbidden();
+
+    const body = await req.json().catch(() => ({}));
+    if (!body?.plan || typeof body.plan !== "object") {
+      return NextResponse.json({ error: "Missing plan" }, { status: 400 });
+    }
+    const tooLarge = checkRequestSize(body);
+    if (tooLarge) {
+      return NextResponse.json({ error: tooLarge }, { status: 413 });
+    }
+
+    // The URL wins over any id in the body.
+    const plan = { ...coercePlan(body.plan, "", {}), id };
+    const stored = await store.save(plan, coerceChecks(body.checks));
+    return NextResponse.json(publicPlan(stored));
+  } catch (err: unknown) {
+    return serverError(err);
+  }
+}
+
+export async function DELETE(req: Request, { params }: Ctx) {
+  try {
+    const { id } = await params;
+    const store = getPlanStore();
+    const existing = isValidPlanId(id) ? await store.get(id) : null;
+    if (!existing) return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+    if (!canEdit(existing, editTokenFrom(req))) return forbidden();
+
+    if (!(await store.delete(id))) return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return serverError(err);
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { coercePlan } from "@/lib/plan";
+import { checkRequestSize, RateLimitError, takeShare } from "@/lib/ratelimit";
+import {
+  canEdit,
+  coerceChecks,
+  editTokenFrom,
+  getPlanStore,
+  isValidPlanId,
+  newEditToken,
+  publicPlan,
+} from "@/lib/store";
+import { isAdminToken } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+/** Every shared plan, newest first. Needs `Authorization: Bearer <ADMIN_TOKEN>`. */
+export async function GET(req: Request) {
+  try {
+    if (!isAdminToken(editTokenFrom(req))) {
+      return NextResponse.json({ error: "Not authorized" }, { status: 401 });
+    }
+    const plans = await getPlanStore().list();
+    return NextResponse.json({ plans }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Shares a plan. Body: { plan, checks }. A new plan comes back with an
+ * `editToken` that PUT and DELETE need as `Authorization: Bearer <token>`;
+ * sharing an id that is already stored needs that same token.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (!body?.plan || typeof body.plan !== "object") {
+      return NextResponse.json({ error: "Missing plan" }, { status: 400 });
+    }
+    const tooLarge = checkRequestSize(body);
+    if (tooLarge) {
+      return NextResponse.json({ error: tooLarge }, { status: 413 });
+    }
+
+    const plan = coercePlan(body.plan, "", {});
+    if (!plan.idea) {
+      return NextResponse.json({ error: "Missing business idea" }, { status: 400 });
+    }
+    if (!isValidPlanId(plan.id)) {
+      return NextResponse.json({ error: "Invalid plan id" }, { status: 400 });
+    }
+
+    // Each new id is another file on disk, so shares count against limits of their own.
+    try {
+      await takeShare(req);
+    } catch (err: unknown) {
+      if (err instanceof RateLimitError) {
+        return NextResponse.json(
+          { error: err.message, retryAfter: err.retryAfter },
+          { status: 429, headers: { "Retry-After": String(err.retryAfter) } }
+        );
+      }
+      throw err;
+    }
+
+    const store = getPlanStore();
+    const existing = await store.get(plan.id);
+    if (existing) {
+      if (!canEdit(existing, editTokenFrom(req))) {
+        return NextResponse.json({ error: "A plan with this id is already shared" }, { status: 403 });
+      }
+      const stored = await store.save(plan, coerceChecks(body.checks));
+      return NextResponse.json(publicPlan(stored));
+    }
+
+    const { token, hash } = newEditToken();
+    const stored = await store.save(plan, coerceChecks(body.checks), hash);
+    return NextResponse.json({ ...publicPlan(stored), editToken: token }, { status: 201 });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown server error" },
+      { status: 500 }
+    );
+  }
+}
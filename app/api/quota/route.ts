@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { readQuota } from "@/lib/ratelimit";
+
+export const runtime = "nodejs";
+
+/** The caller's model requests left today, for display. Does not count as a request. */
+export async function GET(req: Request) {
+  try {
+    return NextResponse.json(await readQuota(req));
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown server error" },
+      { status: 500 }
+    );
+  }
+}
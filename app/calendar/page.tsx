@@ -1,139 +1,34 @@
 "use client";
 
 import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
-
-type Step = {
-  title?: string;
-  summary?: string;
-  whatThisDoes?: string[] | string;
-  howTo?: string[] | string;
-  output?: string;
-};
-
-type Plan = {
-  id?: string;
-  createdAt?: string;
-  idea?: string;
-  inputs?: Record<string, any>;
-  steps?: Step[];
-};
-
-type Day = {
-  day: number;
-  dateLabel: string;
-  focus: string;
-  tasks: string[];
-};
-
-const PLAN_KEY = "bsg_latest_plan_v1";
-
-function safeJsonParse<T = any>(raw: string | null): T | null {
-  if (!raw) return null;
-  try {
-    return JSON.parse(raw) as T;
-  } catch {
-    return null;
-  }
-}
-
-function normalizeBullets(v: any): string[] {
-  if (Array.isArray(v)) return v.map((x) => String(x ?? "").trim()).filter(Boolean);
-  if (typeof v === "string")
-    return v
-      .split("\n")
-      .map((x) => x.trim())
-      .filter(Boolean)
-      .map((x) => x.replace(/^\s*[-•\d.)]+\s*/, "").trim());
-  return [];
-}
-
-function planId(plan: Plan | null): string {
-  const base = plan?.id || plan?.idea || "latest";
-  let h = 2166136261;
-  for (let i = 0; i < base.length; i++) {
-    h ^= base.charCodeAt(i);
-    h = Math.imul(h, 16777619);
-  }
-  return `plan_${(h >>> 0).toString(16)}`;
-}
-
-function checksKey(id: string) {
-  return `bsg_calendar_checks_v1_${id}`;
-}
-
-function formatDate(d: Date) {
-  return d.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
-}
-
-function chunkEvenly(items: string[], buckets: number): string[][] {
-  const out: string[][] = Array.from({ length: buckets }, () => []);
-  if (!items.length) return out;
-  for (let i = 0; i < items.length; i++) out[i % buckets].push(items[i]);
-  return out;
-}
-
-function buildDays(plan: Plan | null): Day[] {
-  const start = new Date();
-  start.setHours(0, 0, 0, 0);
-
-  const steps = Array.isArray(plan?.steps) ? plan!.steps! : [];
-
-  const step1 = steps[0];
-  const step2 = steps[1];
-  const step3 = steps[2];
-
-  const s1Bullets = [...normalizeBullets(step1?.howTo), ...normalizeBullets(step1?.whatThisDoes)];
-  const s2Bullets = [...normalizeBullets(step2?.howTo), ...normalizeBullets(step2?.whatThisDoes)];
-  const s3Bullets = [...normalizeBullets(step3?.howTo), ...normalizeBullets(step3?.whatThisDoes)];
-
-  const fallback1 = [
-    "Write your one-liner (who + outcome + why you).",
-    "Draft landing page: headline + 3 bullets + proof + CTA.",
-    "Write FAQs for top objections.",
-    "Clarify pricing/packaging and a single CTA.",
-  ];
-  const fallback2 = [
-    "Pick ONE channel for the 14-day sprint.",
-    "Create 3 hooks (pain/outcome/differentiator).",
-    "Do today’s outreach/content block (30–60 min).",
-    "Improve based on responses and iterate hooks.",
-    "Follow up within 24 hours.",
-    "Track: views → leads → conversions.",
-  ];
-  const fallback3 = [
-    "Collect proof (testimonial/screenshot/case study) and publish it.",
-    "Improve activation/onboarding to value fast.",
-    "Add a referral ask script and use it.",
-    "Review metrics and lock the next sprint.",
-  ];
-
-  const block = [
-    { title: step1?.title?.trim() || "Step 1: Positioning", days: 4, bullets: s1Bullets.length ? s1Bullets : fallback1 },
-    { title: step2?.title?.trim() || "Step 2: Acquisition Sprint", days: 6, bullets: s2Bullets.length ? s2Bullets : fallback2 },
-    { title: step3?.title?.trim() || "Step 3: Retention & Proof", days: 4, bullets: s3Bullets.length ? s3Bullets : fallback3 },
-  ];
-
-  const days: Day[] = [];
-  let n = 1;
-
-  for (const b of block) {
-    const buckets = chunkEvenly(b.bullets, b.days);
-    for (let i = 0; i < b.days; i++) {
-      const d = new Date(start);
-      d.setDate(start.getDate() + (n - 1));
-      days.push({
-        day: n,
-        dateLabel: formatDate(d),
-        focus: b.title,
-        tasks: buckets[i].length ? buckets[i] : ["Execute the next best action from this step."],
-      });
-      n++;
-    }
-  }
-
-  return days.slice(0, 14);
-}
+import DayCard from "@/components/DayCard";
+import DayEditor from "@/components/DayEditor";
+import ExportMenu from "@/components/ExportMenu";
+import CoachPanel from "@/components/CoachPanel";
+import KpiPanel from "@/components/KpiPanel";
+import ProgressDashboard from "@/components/ProgressDashboard";
+import RetroPanel from "@/components/RetroPanel";
+import SchedulePanel from "@/components/SchedulePanel";
+import { defaultSchedule, planDays, toIsoDate } from "@/lib/calendar";
+import { downloadBlob } from "@/lib/download";
+import { exportBlocks, exportFilename, toText } from "@/lib/export";
+import { calendarToIcs } from "@/lib/ics";
+import {
+  getPlan,
+  listPlans,
+  modelHeaders,
+  planName,
+  readChecks,
+  savePlan,
+  sharePlan,
+  writeChecks,
+} from "@/lib/library";
+import { coercePlan, dayTasks, planShape, withUsage, type Checks, type Plan, type Schedule } from "@/lib/plan";
+import { dayKey, editDayTasks, ensureCalendarDays, isEdited, moveTask } from "@/lib/planEdit";
+import { computeProgress } from "@/lib/progress";
+import { buildRetro, sprintChain, sprintNumber } from "@/lib/retro";
 
 async function copyText(txt: string) {
   try {
@@ -155,53 +50,99 @@ async function copyText(txt: string) {
 export default function CalendarPage() {
   const router = useRouter();
   const [plan, setPlan] = useState<Plan | null>(null);
-  const [pid, setPid] = useState<string>("latest");
-  const [checks, setChecks] = useState<Record<string, boolean>>({});
+  const [checks, setChecks] = useState<Checks>({});
+  const [editing, setEditing] = useState(false);
+  const [retroOpen, setRetroOpen] = useState(false);
+  const [retroBusy, setRetroBusy] = useState(false);
+  const [retroError, setRetroError] = useState("");
 
   useEffect(() => {
-    const p = safeJsonParse<Plan>(localStorage.getItem(PLAN_KEY));
+    const requested = new URLSearchParams(window.location.search).get("plan");
+    const p = requested ? getPlan(requested) : null;
     setPlan(p);
-    const id = planId(p);
-    setPid(id);
-
-    const savedChecks = safeJsonParse<Record<string, boolean>>(localStorage.getItem(checksKey(id)));
-    setChecks(savedChecks || {});
+    if (p) setChecks(readChecks(p));
   }, []);
 
   useEffect(() => {
-    localStorage.setItem(checksKey(pid), JSON.stringify(checks));
-  }, [checks, pid]);
-
-  const days = useMemo(() => buildDays(plan), [plan]);
+    if (plan) writeChecks(plan, checks);
+  }, [checks, plan]);
+
+  const days = useMemo(() => planDays(plan), [plan]);
+  const progress = useMemo(() => (plan ? computeProgress(plan, checks) : null), [plan, checks]);
+  const chain = useMemo(() => (plan ? sprintChain(listPlans(), plan) : []), [plan]);
+  // Over once the last day has passed or everything is checked.
+  const finished =
+    !!progress && (progress.percent === 100 || (days.length > 0 && days[days.length - 1].date < toIsoDate(new Date())));
   const title = plan?.idea?.trim() || "Your plan";
   const createdAt = plan?.createdAt ? new Date(plan.createdAt) : new Date();
 
-  function toggle(day: number, idx: number) {
-    const key = `d${day}_t${idx}`;
-    setChecks((prev) => ({ ...prev, [key]: !prev[key] }));
+  function toggle(key: string) {
+    setChecks((prev) => {
+      const next = { ...prev };
+      if (next[key]) delete next[key];
+      else next[key] = new Date().toISOString();
+      return next;
+    });
+  }
+
+  // Checks follow task ids, so an edit keeps them without any remapping.
+  function applyEdit(next: Plan) {
+    setPlan(savePlan(next));
+  }
+
+  function onScheduleChange(schedule: Schedule) {
+    if (!plan) return;
+    setPlan(savePlan({ ...plan, schedule }));
+  }
+
+  function onExportIcs() {
+    if (!plan) return;
+    const ics = calendarToIcs(plan, days);
+    downloadBlob(new Blob([ics], { type: "text/calendar;charset=utf-8" }), exportFilename(plan, "calendar", "ics"));
   }
 
   function resetChecks() {
     setChecks({});
-    localStorage.removeItem(checksKey(pid));
     alert("Calendar checks reset.");
   }
 
-  function calendarToText(): string {
-    const lines: string[] = [];
-    lines.push("14-Day Marketing Calendar");
-    lines.push(`Plan: ${title}`);
-    lines.push(`Generated: ${createdAt.toLocaleString()}`);
-    lines.push("");
-
-    days.forEach((d) => {
-      lines.push(`Day ${d.day} — ${d.dateLabel}`);
-      lines.push(`Focus: ${d.focus}`);
-      d.tasks.forEach((t) => lines.push(`- ${t}`));
-      lines.push("");
-    });
+  // Saves the review on this plan, then asks for and opens the follow-on sprint.
+  async function onNextSprint(notes: string) {
+    if (!plan) return;
+    setRetroError("");
+    setRetroBusy(true);
+    try {
+      const retro = buildRetro(plan, checks, notes);
+      setPlan(savePlan({ ...plan, retro }));
+      const resp = await fetch("/api/generate/next", {
+        method: "POST",
+        headers: modelHeaders(),
+        body: JSON.stringify({ plan, retro }),
+      });
+      const data = await resp.json().catch(() => null);
+
+      if (!resp.ok || !data) {
+        setRetroError(data?.error || `Next sprint failed (${resp.status})`);
+        return;
+      }
+
+      const next = savePlan(coercePlan(data, plan.idea, plan.inputs));
+      router.push(`/?plan=${encodeURIComponent(next.id)}`);
+    } catch (e: unknown) {
+      setRetroError(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setRetroBusy(false);
+    }
+  }
 
-    return lines.join("\n");
+  async function onShare() {
+    if (!plan) return;
+    try {
+      const url = await sharePlan(plan);
+      alert(`Read-only link copied:\n${url}`);
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : "Could not share this plan.");
+    }
   }
 
   return (
@@ -231,7 +172,7 @@ export default function CalendarPage() {
       <div className="print-wrap mx-auto max-w-4xl px-4 py-8">
         <div className="no-print flex items-center justify-between gap-3">
           <button
-            onClick={() => router.push("/")}
+            onClick={() => router.push(plan ? `/?plan=${encodeURIComponent(plan.id)}` : "/")}
             className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900"
           >
             ← Back
@@ -239,12 +180,37 @@ export default function CalendarPage() {
 
           <div className="flex flex-wrap gap-2">
             <button
-              onClick={() => copyText(calendarToText())}
-              className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900"
+              onClick={() => plan && copyText(toText(exportBlocks(plan, "calendar", checks)))}
+              disabled={!plan}
+              className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900 disabled:opacity-50"
             >
               Copy calendar
             </button>
 
+            <button
+              onClick={() => setEditing((v) => !v)}
+              disabled={!plan}
+              className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900 disabled:opacity-50"
+            >
+              {editing ? "Done editing" : "Edit tasks"}
+            </button>
+
+            <button
+              onClick={() => setRetroOpen((v) => !v)}
+              disabled={!plan}
+              className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900 disabled:opacity-50"
+            >
+              Retrospective
+            </button>
+
+            <button
+              onClick={onShare}
+              disabled={!plan}
+              className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900 disabled:opacity-50"
+            >
+              Share link
+            </button>
+
             <button
               onClick={resetChecks}
               className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900"
@@ -252,6 +218,16 @@ export default function CalendarPage() {
               Reset checks
             </button>
 
+            <button
+              onClick={onExportIcs}
+              disabled={!plan}
+              className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900 disabled:opacity-50"
+            >
+              Add to calendar (.ics)
+            </button>
+
+            <ExportMenu plan={plan} kind="calendar" checks={() => checks} onError={(m) => alert(m)} />
+
             <button
               onClick={() => window.print()}
               className="rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-black hover:brightness-105"
@@ -262,7 +238,9 @@ export default function CalendarPage() {
         </div>
 
         <div className="mt-6">
-          <h1 className="text-3xl font-extrabold tracking-tight">14-Day Marketing Calendar</h1>
+          <h1 className="text-3xl font-extrabold tracking-tight">
+            {planShape(plan).days}-Day Marketing Calendar
+          </h1>
           <p className="print-muted mt-2 text-sm text-zinc-400">
             Copy it into Google Docs/Notes and print when you’re ready.
           </p>
@@ -274,7 +252,11 @@ export default function CalendarPage() {
               <b>No saved plan found.</b>
             </div>
             <div className="mt-1 text-sm text-zinc-400">
-              Go back, generate a plan, then return here.
+              Open a calendar from{" "}
+              <Link href="/plans" className="text-emerald-300 underline">
+                Saved plans
+              </Link>
+              , or go back and generate a plan.
             </div>
           </div>
         ) : (
@@ -284,51 +266,95 @@ export default function CalendarPage() {
             <div className="print-muted mt-1 text-xs text-zinc-500">
               Generated: {createdAt.toLocaleString()}
             </div>
+            {chain.length > 1 && (
+              <div className="no-print mt-3 flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-zinc-400">Sprints:</span>
+                {chain.map((p) =>
+                  p.id === plan.id ? (
+                    <span key={p.id} className="rounded-md border border-emerald-800 bg-emerald-950/40 px-2 py-0.5 text-emerald-200">
+                      Sprint {sprintNumber(p)}
+                    </span>
+                  ) : (
+                    // A full load, since this page reads the plan id once on mount.
+                    <a
+                      key={p.id}
+                      href={`/calendar?plan=${encodeURIComponent(p.id)}`}
+                      title={planName(p)}
+                      className="rounded-md border border-zinc-800 px-2 py-0.5 text-zinc-300 hover:border-zinc-700"
+                    >
+                      Sprint {sprintNumber(p)}
+                    </a>
+                  )
+                )}
+              </div>
+            )}
           </div>
         )}
 
-        <div className="mt-6 space-y-4">
-          {days.map((d) => (
-            <div key={d.day} className="print-card rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4">
-              <div className="flex items-start justify-between gap-4">
-                <div>
-                  <div className="text-lg font-extrabold">Day {d.day}</div>
-                  <div className="print-muted mt-1 text-sm text-zinc-400">Focus: {d.focus}</div>
-                </div>
-                <div className="print-muted text-xs text-zinc-500">{d.dateLabel}</div>
-              </div>
+        {plan && finished && !retroOpen && (
+          <div className="no-print mt-6 flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-emerald-900/60 bg-emerald-950/20 p-4 text-sm">
+            <span className="text-emerald-100">
+              {plan.retro
+                ? "This sprint has been reviewed. Plan another follow-on sprint any time."
+                : "This sprint is over. Review it to plan the next one."}
+            </span>
+            <button
+              onClick={() => setRetroOpen(true)}
+              className="rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-black hover:brightness-105"
+            >
+              Start retrospective
+            </button>
+          </div>
+        )}
 
-              {/* interactive checkboxes (screen) */}
-              <div className="no-print mt-3 space-y-2">
-                {d.tasks.map((t, idx) => (
-                  <label
-                    key={idx}
-                    className="flex cursor-pointer items-start gap-3 rounded-xl border border-zinc-800 bg-zinc-950/30 p-3 hover:bg-zinc-950/50"
-                  >
-                    <input
-                      type="checkbox"
-                      className="mt-0.5 h-4 w-4 accent-emerald-500"
-                      checked={!!checks[`d${d.day}_t${idx}`]}
-                      onChange={() => toggle(d.day, idx)}
-                    />
-                    <span className={checks[`d${d.day}_t${idx}`] ? "text-zinc-500 line-through" : "text-zinc-200"}>
-                      {t}
-                    </span>
-                  </label>
-                ))}
-              </div>
+        {plan && retroOpen && (
+          <RetroPanel
+            plan={plan}
+            checks={checks}
+            busy={retroBusy}
+            error={retroError}
+            onSubmit={onNextSprint}
+            onClose={() => setRetroOpen(false)}
+          />
+        )}
 
-              {/* print version (no checkboxes) */}
-              <div className="hidden print:block mt-3">
-                <ul className="ml-5 list-disc">
-                  {d.tasks.map((t, idx) => (
-                    <li key={idx} className="text-sm text-zinc-900">
-                      {t}
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            </div>
+        {progress && <ProgressDashboard progress={progress} />}
+
+        {plan && <KpiPanel plan={plan} days={days} onChange={applyEdit} />}
+
+        {plan && (
+          <CoachPanel
+            key={plan.id}
+            plan={plan}
+            checks={checks}
+            onUsage={(usage) => applyEdit(withUsage(getPlan(plan.id) ?? plan, usage))}
+          />
+        )}
+
+        {plan && (
+          <SchedulePanel schedule={plan.schedule ?? defaultSchedule(plan)} onChange={onScheduleChange} />
+        )}
+
+        <div className="mt-6 space-y-4">
+          {days.map((d) => (
+            editing && plan ? (
+              <DayEditor
+                key={`${d.day}:${d.tasks.join("|")}`}
+                day={d}
+                tasks={dayTasks(ensureCalendarDays(plan)[d.day - 1] ?? { tasks: [], taskIds: [] })}
+                dayCount={days.length}
+                onSave={(tasks) => applyEdit(editDayTasks(plan, { [d.day]: tasks }))}
+                onMove={(idx, toDay) => applyEdit(moveTask(plan, d.day, idx, toDay))}
+              />
+            ) : (
+              <DayCard
+                key={d.day}
+                day={d}
+                checks={checks}
+                onToggle={(idx) => toggle(d.taskIds[idx])}
+                modified={!!plan && isEdited(plan, dayKey(d.day))}
+              />
+            )
           ))}
         </div>
       </div>
@@ -0,0 +1,372 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  bestIndex,
+  coerceComparison,
+  MAX_CANDIDATES,
+  MIN_CANDIDATES,
+  SCORE_CRITERIA,
+  type Candidate,
+  type Comparison,
+} from "@/lib/compare";
+import { formatKpi } from "@/lib/kpi";
+import { getPlan, modelHeaders, readComparison, savePlan, writeComparison } from "@/lib/library";
+import { DEFAULT_SHAPE, HORIZONS, horizonLabel, STEP_COUNTS, type Inputs, type Plan, type PlanShape } from "@/lib/plan";
+import { DEFAULT_TEMPLATE_ID, getTemplate, TEMPLATES } from "@/lib/templates";
+
+const selectCls =
+  "rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-2 text-sm outline-none focus:border-emerald-500/60";
+const inputCls =
+  "w-full rounded-xl border border-zinc-800 bg-zinc-950/60 p-2 text-sm outline-none focus:border-emerald-500/60";
+const btnCls =
+  "rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900 disabled:opacity-50";
+
+// The inputs worth varying between candidates; the rest stay empty.
+const VARIANT_FIELDS: { key: keyof Inputs; label: string }[] = [
+  { key: "targetCustomer", label: "Target customer" },
+  { key: "coreOffer", label: "Core offer" },
+  { key: "pricePoint", label: "Price point" },
+  { key: "goal", label: "Goal" },
+];
+
+function emptyCandidate(): Candidate {
+  return { idea: "", inputs: {} };
+}
+
+// One column per plan; narrow screens scroll sideways instead of squashing.
+function columns(n: number): React.CSSProperties {
+  return { gridTemplateColumns: `repeat(${n}, minmax(16rem, 1fr))` };
+}
+
+export default function ComparePage() {
+  const router = useRouter();
+  const [candidates, setCandidates] = useState<Candidate[]>([emptyCandidate(), emptyCandidate()]);
+  const [shape, setShape] = useState<PlanShape>(DEFAULT_SHAPE);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setComparison(readComparison());
+  }, []);
+
+  const template = getTemplate(templateId);
+  const ready = candidates.filter((c) => c.idea.trim()).length >= MIN_CANDIDATES;
+
+  function update(i: number, next: Candidate) {
+    setCandidates((cs) => cs.map((c, j) => (j === i ? next : c)));
+  }
+
+  async function onCompare() {
+    setError("");
+    setLoading(true);
+    try {
+      const resp = await fetch("/api/compare", {
+        method: "POST",
+        headers: modelHeaders(),
+        body: JSON.stringify({
+          candidates: candidates.filter((c) => c.idea.trim()),
+          steps: shape.steps,
+          days: shape.days,
+          template: templateId,
+        }),
+      });
+      const data = await resp.json().catch(() => null);
+
+      if (!resp.ok || !data) {
+        setError(data?.error || `Compare failed (${resp.status})`);
+        return;
+      }
+
+      const next = coerceComparison(data);
+      setComparison(next);
+      writeComparison(next);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Promoting keeps the plan as generated; opening it again later does not overwrite edits.
+  function promote(plan: Plan) {
+    if (!getPlan(plan.id)) savePlan(plan);
+    router.push(`/?plan=${encodeURIComponent(plan.id)}`);
+  }
+
+  const plans = comparison?.results.map((r) => r.plan).filter((p): p is Plan => !!p) ?? [];
+  const failed = comparison?.results.filter((r) => !r.plan) ?? [];
+  const scorecard = comparison?.scorecard;
+  const stepCount = Math.max(0, ...plans.map((p) => p.steps.length));
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-100">
+      <div className="mx-auto max-w-6xl px-6 py-10">
+        <div className="flex items-center justify-between gap-3">
+          <button onClick={() => router.push("/")} className={btnCls}>
+            ← New plan
+          </button>
+          <button onClick={() => router.push("/plans")} className={btnCls}>
+            Saved plans
+          </button>
+        </div>
+
+        <h1 className="mt-6 text-3xl font-extrabold tracking-tight">Compare ideas</h1>
+        <p className="mt-2 text-sm text-zinc-400">
+          Generate plans for {MIN_CANDIDATES}–{MAX_CANDIDATES} ideas, or variants of one idea, side by side. A
+          scorecard rates each on effort, time to first revenue, channel fit and risk. Save the winner to keep
+          working on it.
+        </p>
+
+        <div className="mt-6 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-6">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="font-medium text-zinc-200">Strategy</label>
+            <select className={selectCls} value={templateId} onChange={(e) => setTemplateId(e.target.value)}>
+              {TEMPLATES.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+            <label className="font-medium text-zinc-200">Steps</label>
+            <select
+              className={selectCls}
+              value={shape.steps}
+              onChange={(e) => setShape((s) => ({ ...s, steps: Number(e.target.value) }))}
+            >
+              {STEP_COUNTS.map((n) => (
+                <option key={n} value={n}>
+                  {n} steps
+                </option>
+              ))}
+            </select>
+            <label className="font-medium text-zinc-200">Calendar</label>
+            <select
+              className={selectCls}
+              value={shape.days}
+              onChange={(e) => setShape((s) => ({ ...s, days: Number(e.target.value) }))}
+            >
+              {HORIZONS.map((n) => (
+                <option key={n} value={n}>
+                  {n} days
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="mt-5 grid gap-3 md:grid-cols-2">
+            {candidates.map((c, i) => (
+              <div key={i} className="rounded-xl border border-zinc-800 bg-zinc-950/40 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm font-semibold text-zinc-200">Idea {i + 1}</div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setCandidates((cs) => [...cs, { idea: c.idea, inputs: { ...c.inputs } }])}
+                      disabled={candidates.length >= MAX_CANDIDATES}
+                      className="text-xs text-emerald-300 underline disabled:opacity-40"
+                      title="Same idea with different inputs"
+                    >
+                      Add variant
+                    </button>
+                    <button
+                      onClick={() => setCandidates((cs) => cs.filter((_, j) => j !== i))}
+                      disabled={candidates.length <= MIN_CANDIDATES}
+                      className="text-xs text-zinc-400 underline disabled:opacity-40"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                <textarea
+                  className={`${inputCls} mt-2`}
+                  rows={2}
+                  value={c.idea}
+                  onChange={(e) => update(i, { ...c, idea: e.target.value })}
+                  placeholder={template.placeholders.idea}
+                />
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  {VARIANT_FIELDS.map((f) => (
+                    <input
+                      key={f.key}
+                      className={inputCls}
+                      value={c.inputs[f.key] || ""}
+                      onChange={(e) => update(i, { ...c, inputs: { ...c.inputs, [f.key]: e.target.value } })}
+                      placeholder={
+                        f.key === "goal" ? `${horizonLabel(shape.days)} goal (optional)` : `${f.label} (optional)`
+                      }
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-5 flex flex-wrap gap-2">
+            <button
+              onClick={onCompare}
+              disabled={loading || !ready}
+              className="rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-black disabled:opacity-60"
+            >
+              {loading ? "Generating plans..." : `Compare ${candidates.filter((c) => c.idea.trim()).length} plans`}
+            </button>
+            <button
+              onClick={() => setCandidates((cs) => [...cs, emptyCandidate()])}
+              disabled={loading || candidates.length >= MAX_CANDIDATES}
+              className={btnCls}
+            >
+              + Add idea
+            </button>
+          </div>
+
+          {error ? (
+            <div className="mt-3 rounded-xl border border-red-900/50 bg-red-950/30 p-3 text-sm text-red-200">
+              {error}
+            </div>
+          ) : null}
+        </div>
+
+        {comparison && (
+          <div className="mt-8">
+            {failed.map((r, i) => (
+              <div
+                key={i}
+                className="mb-3 rounded-xl border border-amber-900/50 bg-amber-950/30 p-3 text-sm text-amber-200"
+              >
+                No plan for “{r.idea}”: {r.error}
+              </div>
+            ))}
+            {comparison.scorecardError ? (
+              <div className="mb-3 rounded-xl border border-amber-900/50 bg-amber-950/30 p-3 text-sm text-amber-200">
+                The scorecard could not be produced: {comparison.scorecardError}
+              </div>
+            ) : null}
+
+            <div className="overflow-x-auto">
+              <div className="grid gap-3" style={columns(plans.length)}>
+                {plans.map((p, i) => {
+                  const winner = scorecard?.winner === i;
+                  return (
+                    <div
+                      key={p.id}
+                      className={`rounded-2xl border p-4 ${
+                        winner ? "border-emerald-700 bg-emerald-950/20" : "border-zinc-800 bg-zinc-900/30"
+                      }`}
+                    >
+                      {winner && (
+                        <div className="mb-2 inline-block rounded-md bg-emerald-500 px-2 py-0.5 text-xs font-semibold text-black">
+                          Recommended
+                        </div>
+                      )}
+                      <div className="font-bold">{p.idea}</div>
+                      <div className="mt-1 text-xs text-zinc-500">
+                        {VARIANT_FIELDS.filter((f) => p.inputs[f.key])
+                          .map((f) => `${f.label}: ${p.inputs[f.key]}`)
+                          .join(" · ")}
+                      </div>
+                      <button
+                        onClick={() => promote(p)}
+                        className="mt-3 rounded-lg bg-emerald-500 px-3 py-1 text-xs font-semibold text-black"
+                      >
+                        Save as plan
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {scorecard && (
+                <div className="mt-3 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4">
+                  <div className="text-sm font-semibold text-zinc-200">Scorecard</div>
+                  {scorecard.reason && <div className="mt-1 text-sm text-zinc-400">{scorecard.reason}</div>}
+                  {SCORE_CRITERIA.map((c) => {
+                    const best = bestIndex(scorecard, c);
+                    return (
+                      <div key={c.key} className="mt-3">
+                        <div className="text-xs uppercase tracking-wide text-zinc-500">
+                          {c.label} <span className="normal-case">({c.hint})</span>
+                        </div>
+                        <div className="mt-1 grid gap-3" style={columns(plans.length)}>
+                          {scorecard.entries.map((e, i) => (
+                            <div
+                              key={i}
+                              className={`rounded-lg border px-3 py-1.5 text-sm ${
+                                best === i ? "border-emerald-800 text-emerald-200" : "border-zinc-800 text-zinc-200"
+                              }`}
+                            >
+                              {e[c.key]}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <div className="mt-3 grid gap-3" style={columns(plans.length)}>
+                    {scorecard.entries.map((e, i) => (
+                      <div key={i} className="text-xs text-zinc-400">
+                        {e.notes}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {plans.some((p) => p.kpis?.length) && (
+                <div className="mt-3 grid gap-3" style={columns(plans.length)}>
+                  {plans.map((p) => (
+                    <div key={p.id} className="rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4 text-sm">
+                      <div className="text-xs uppercase tracking-wide text-zinc-500">KPI targets</div>
+                      {(p.kpis ?? []).map((k) => (
+                        <div key={k.id} className="mt-1 text-zinc-300">
+                          {k.name}: <span className="font-semibold">{formatKpi(k.target, k.unit)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {Array.from({ length: stepCount }, (_, s) => (
+                <div key={s} className="mt-3 grid gap-3" style={columns(plans.length)}>
+                  {plans.map((p) => {
+                    const step = p.steps[s];
+                    return (
+                      <div key={p.id} className="rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4 text-sm">
+                        {step ? (
+                          <>
+                            <div className="text-xs uppercase tracking-wide text-zinc-500">Step {s + 1}</div>
+                            <div className="mt-1 font-semibold">{step.title}</div>
+                            {step.summary && <div className="mt-1 text-zinc-400">{step.summary}</div>}
+                            {step.output && (
+                              <div className="mt-2 text-zinc-300">
+                                <span className="text-zinc-500">Output:</span> {step.output}
+                              </div>
+                            )}
+                            {step.howTo.length > 0 && (
+                              <details className="mt-2">
+                                <summary className="cursor-pointer text-xs text-zinc-400">
+                                  Checklist ({step.howTo.length})
+                                </summary>
+                                <ul className="mt-1 list-disc space-y-1 pl-5 text-zinc-400">
+                                  {step.howTo.map((h, j) => (
+                                    <li key={j}>{h}</li>
+                                  ))}
+                                </ul>
+                              </details>
+                            )}
+                          </>
+                        ) : null}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
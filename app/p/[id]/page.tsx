@@ -0,0 +1,71 @@
+import React from "react";
+import { notFound } from "next/navigation";
+import DayCard from "@/components/DayCard";
+import StepCard from "@/components/StepCard";
+import { planDays } from "@/lib/calendar";
+import { calendarTitle } from "@/lib/export";
+import { dayKey, isEdited, STEP_FIELDS, stepFieldKey } from "@/lib/planEdit";
+import { computeProgress } from "@/lib/progress";
+import { getPlanStore, isValidPlanId } from "@/lib/store";
+
+export const runtime = "nodejs";
+
+// Public, read-only view of a plan saved on the server.
+export default async function SharedPlanPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const stored = isValidPlanId(id) ? await getPlanStore().get(id) : null;
+  if (!stored) notFound();
+
+  const { plan, checks } = stored;
+  const days = planDays(plan);
+  const { done, total } = computeProgress(plan, checks);
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-100">
+      <div className="mx-auto max-w-4xl px-6 py-10">
+        <div className="mb-6 flex items-center gap-2">
+          <div className="inline-flex items-center gap-2 rounded-full border border-zinc-800 bg-zinc-900/40 px-3 py-1 text-sm">
+            <span className="h-2 w-2 rounded-full bg-sky-400" />
+            Shared plan (read-only)
+          </div>
+          <div className="text-sm font-semibold text-zinc-300">ProfitBot</div>
+        </div>
+
+        <div className="rounded-2xl border border-zinc-800 bg-zinc-900/30 p-5">
+          <div className="text-xl font-bold">{plan.name || plan.idea}</div>
+          {plan.name ? <div className="mt-1 text-sm text-zinc-400">{plan.idea}</div> : null}
+          <div className="mt-1 text-xs text-zinc-500">
+            Generated: {new Date(plan.createdAt).toLocaleString()}
+          </div>
+        </div>
+
+        <div className="mt-6 space-y-4">
+          {plan.steps.map((s, idx) => (
+            <StepCard
+              key={idx}
+              step={s}
+              index={idx}
+              edited={STEP_FIELDS.filter((f) => isEdited(plan, stepFieldKey(idx, f)))}
+            />
+          ))}
+        </div>
+
+        <h2 className="mt-10 text-2xl font-extrabold tracking-tight">{calendarTitle(plan)}</h2>
+        <p className="mt-1 text-sm text-zinc-400">
+          {done} of {total} tasks done
+        </p>
+
+        <div className="mt-6 space-y-4">
+          {days.map((d) => (
+            <DayCard
+              key={d.day}
+              day={d}
+              checks={checks}
+              modified={isEdited(plan, dayKey(d.day))}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,164 +1,59 @@
 "use client";
 
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
-
-type Inputs = {
-  targetCustomer?: string;
-  coreOffer?: string;
-  differentiator?: string;
-  pricePoint?: string;
-  geography?: string;
-  goal14Day?: string;
-  notes?: string;
-};
-
-type Step = {
-  title: string;
-  summary: string;
-  whatThisDoes: string[];
-  howTo: string[];
-  output: string;
-};
-
-type Plan = {
-  id: string;
-  createdAt: string;
-  idea: string;
-  inputs: Inputs;
-  steps: Step[];
-};
-
-const LS_PLAN_KEY = "bsg_latest_plan_v1";
-
-function safeStr(v: any) {
-  return typeof v === "string" ? v.trim() : "";
-}
-
-function toStrArray(v: any): string[] {
-  if (Array.isArray(v)) return v.map((x) => safeStr(x)).filter(Boolean);
-
-  if (typeof v === "string")
-    return v
-      .split("\n")
-      .map((x) => x.trim())
-      .filter(Boolean)
-      .map((x) => x.replace(/^\s*[-•\d.)]+\s*/, "").trim());
-
-  return [];
-}
-
-function coercePlan(raw: any, ideaFallback: string, inputsFallback: Inputs): Plan {
-  const id =
-    safeStr(raw?.id) || `plan_${Date.now()}_${Math.random().toString(16).slice(2)}`;
-  const createdAt = safeStr(raw?.createdAt) || new Date().toISOString();
-  const idea = safeStr(raw?.idea) || ideaFallback;
-
-  const inputsRaw = raw?.inputs && typeof raw.inputs === "object" ? raw.inputs : {};
-  const inputs: Inputs = {
-    targetCustomer:
-      safeStr(inputsRaw?.targetCustomer) ||
-      safeStr((raw as any)?.targetCustomer) ||
-      inputsFallback.targetCustomer,
-    coreOffer:
-      safeStr(inputsRaw?.coreOffer) ||
-      safeStr((raw as any)?.coreOffer) ||
-      inputsFallback.coreOffer,
-    differentiator:
-      safeStr(inputsRaw?.differentiator) ||
-      safeStr((raw as any)?.differentiator) ||
-      inputsFallback.differentiator,
-    pricePoint:
-      safeStr(inputsRaw?.pricePoint) ||
-      safeStr((raw as any)?.pricePoint) ||
-      inputsFallback.pricePoint,
-    geography:
-      safeStr(inputsRaw?.geography) ||
-      safeStr((raw as any)?.geography) ||
-      inputsFallback.geography,
-    goal14Day:
-      safeStr(inputsRaw?.goal14Day) ||
-      safeStr((raw as any)?.goal14Day) ||
-      inputsFallback.goal14Day,
-    notes:
-      safeStr(inputsRaw?.notes) ||
-      safeStr((raw as any)?.notes) ||
-      inputsFallback.notes,
-  };
-
-  const stepsRaw = Array.isArray(raw?.steps) ? raw.steps : [];
-  const steps: Step[] = stepsRaw.slice(0, 3).map((s: any, i: number) => ({
-    title: safeStr(s?.title) || `Step ${i + 1}`,
-    summary: safeStr(s?.summary) || "",
-    whatThisDoes: toStrArray(s?.whatThisDoes ?? s?.what ?? s?.explain),
-    howTo: toStrArray(s?.howTo ?? s?.how_to ?? s?.checklist),
-    output: safeStr(s?.output ?? s?.deliverable) || "",
-  }));
-
-  while (steps.length < 3) {
-    steps.push({
-      title: `Step ${steps.length + 1}`,
-      summary: "",
-      whatThisDoes: [],
-      howTo: [],
-      output: "",
-    });
-  }
-
-  return { id, createdAt, idea, inputs, steps: steps.slice(0, 3) };
-}
-
-function planToText(plan: Plan): string {
-  const lines: string[] = [];
-  lines.push("ProfitBot — AI Business Plan Generator");
-  lines.push(`Idea: ${plan.idea}`);
-  lines.push(`Generated: ${new Date(plan.createdAt).toLocaleString()}`);
-  lines.push("");
-
-  const i = plan.inputs || {};
-  const inputLines = [
-    i.targetCustomer ? `Target customer: ${i.targetCustomer}` : "",
-    i.coreOffer ? `Core offer: ${i.coreOffer}` : "",
-    i.differentiator ? `Differentiator: ${i.differentiator}` : "",
-    i.pricePoint ? `Price point: ${i.pricePoint}` : "",
-    i.geography ? `Geography: ${i.geography}` : "",
-    i.goal14Day ? `14-day goal: ${i.goal14Day}` : "",
-    i.notes ? `Notes: ${i.notes}` : "",
-  ].filter(Boolean);
-
-  if (inputLines.length) {
-    lines.push("Inputs");
-    inputLines.forEach((x) => lines.push(`- ${x}`));
-    lines.push("");
-  }
-
-  plan.steps.forEach((s, idx) => {
-    lines.push(`Step ${idx + 1}: ${s.title}`);
-    if (s.summary) lines.push(s.summary);
-    lines.push("");
-
-    if (s.whatThisDoes?.length) {
-      lines.push("What this step does:");
-      s.whatThisDoes.forEach((b) => lines.push(`- ${b}`));
-      lines.push("");
-    }
-
-    if (s.howTo?.length) {
-      lines.push("How to do it (checklist):");
-      s.howTo.forEach((b) => lines.push(`- ${b}`));
-      lines.push("");
-    }
-
-    if (s.output) {
-      lines.push(`Output: ${s.output}`);
-      lines.push("");
+import CoachPanel from "@/components/CoachPanel";
+import DraftCard from "@/components/DraftCard";
+import ExportMenu from "@/components/ExportMenu";
+import ImportPanel from "@/components/ImportPanel";
+import ReportCard from "@/components/ReportCard";
+import StepCard from "@/components/StepCard";
+import StepEditor from "@/components/StepEditor";
+import { exportBlocks, toText } from "@/lib/export";
+import { formatKpi } from "@/lib/kpi";
+import { clientId, getPlan, modelHeaders, readChecks, savePlan, sharePlan } from "@/lib/library";
+import {
+  coerceCalendarDays,
+  coerceDraft,
+  coercePlan,
+  coerceReport,
+  coerceStep,
+  DEFAULT_SHAPE,
+  horizonLabel,
+  HORIZONS,
+  planShape,
+  STEP_COUNTS,
+  type Inputs,
+  type Plan,
+  type PlanShape,
+  type PlanStep,
+  type PlanStreamEvent,
+  usageLabel,
+  withUsage,
+} from "@/lib/plan";
+import { draftKey, editDraft, editStep, isEdited, replaceDraft, STEP_FIELDS, stepFieldKey } from "@/lib/planEdit";
+import type { Quota } from "@/lib/ratelimit";
+import { DEFAULT_TEMPLATE_ID, getTemplate, TEMPLATES } from "@/lib/templates";
+import { replaceStep, restoreStep } from "@/lib/stepEdit";
+
+/** Parses an NDJSON response body from /api/generate into events. */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<PlanStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (value) buf += decoder.decode(value, { stream: !done });
+
+    let nl: number;
+    while ((nl = buf.indexOf("\n")) >= 0) {
+      const line = buf.slice(0, nl).trim();
+      buf = buf.slice(nl + 1);
+      if (line) yield JSON.parse(line) as PlanStreamEvent;
     }
-
-    lines.push("--------------------------------------------------");
-    lines.push("");
-  });
-
-  return lines.join("\n");
+    if (done) break;
+  }
+  if (buf.trim()) yield JSON.parse(buf) as PlanStreamEvent;
 }
 
 async function copyText(txt: string) {
@@ -188,16 +83,56 @@ export default function Page() {
     differentiator: "",
     pricePoint: "",
     geography: "",
-    goal14Day: "",
+    goal: "",
     notes: "",
   });
+  const [shape, setShape] = useState<PlanShape>(DEFAULT_SHAPE);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const template = getTemplate(templateId);
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [plan, setPlan] = useState<Plan | null>(null);
+  const [busyStep, setBusyStep] = useState<number | null>(null);
+  // Drafts for several steps can run at once; each step tracks its own.
+  const [busyDrafts, setBusyDrafts] = useState<ReadonlySet<number>>(new Set());
+  const [editingStep, setEditingStep] = useState<number | null>(null);
+  const [importing, setImporting] = useState(false);
+  // Also write the validation report once a new plan is generated.
+  const [validateFirst, setValidateFirst] = useState(false);
+  const [validating, setValidating] = useState(false);
+  // Skip the server's plan cache and always ask the model.
+  const [forceFresh, setForceFresh] = useState(false);
+  // Steps received so far while a streamed generation is in flight.
+  const [draftSteps, setDraftSteps] = useState<(PlanStep | undefined)[]>([]);
+
+  // Model requests left today, refreshed after every call that spends one.
+  const [quota, setQuota] = useState<Quota | null>(null);
 
   const canGoCalendar = useMemo(() => !!plan, [plan]);
 
+  async function refreshQuota() {
+    const resp = await fetch("/api/quota", { headers: { "X-Client-Id": clientId() } }).catch(() => null);
+    const data = await resp?.json().catch(() => null);
+    if (resp?.ok && typeof data?.remaining === "number") setQuota(data);
+  }
+
+  useEffect(() => {
+    void refreshQuota();
+  }, []);
+
+  // Reopen a saved plan when linked from /plans or the calendar (/?plan=<id>).
+  useEffect(() => {
+    const requested = new URLSearchParams(window.location.search).get("plan");
+    const saved = requested ? getPlan(requested) : null;
+    if (!saved) return;
+    setPlan(saved);
+    setIdea(saved.idea);
+    setInputs((p) => ({ ...p, ...saved.inputs }));
+    setShape(planShape(saved));
+    setTemplateId(getTemplate(saved.template).id);
+  }, []);
+
   async function onGenerate() {
     setError("");
     const ideaTrimmed = idea.trim();
@@ -207,10 +142,13 @@ export default function Page() {
     }
 
     setLoading(true);
+    setPlan(null);
+    setDraftSteps([]);
+    setEditingStep(null);
     try {
       const resp = await fetch("/api/generate", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: modelHeaders(),
         body: JSON.stringify({
           idea: ideaTrimmed,
           targetCustomer: inputs.targetCustomer || "",
@@ -218,28 +156,151 @@ export default function Page() {
           differentiator: inputs.differentiator || "",
           pricePoint: inputs.pricePoint || "",
           geography: inputs.geography || "",
-          goal14Day: inputs.goal14Day || "",
+          goal: inputs.goal || "",
           notes: inputs.notes || "",
+          steps: shape.steps,
+          days: shape.days,
+          template: templateId,
+          stream: true,
+          fresh: forceFresh,
         }),
       });
 
-      const data = await resp.json().catch(() => null);
-
-      if (!resp.ok || !data) {
+      if (!resp.ok || !resp.body) {
+        const data = await resp.json().catch(() => null);
         setError(data?.error || `Generate failed (${resp.status})`);
         return;
       }
 
-      const nextPlan = coercePlan(data, ideaTrimmed, inputs);
+      let finalPlan: Plan | null = null;
+      for await (const ev of readEvents(resp.body)) {
+        if (ev.type === "step") {
+          setDraftSteps((prev) => {
+            const next = [...prev];
+            next[ev.index] = ev.step;
+            return next;
+          });
+        } else if (ev.type === "plan") {
+          finalPlan = ev.plan;
+        } else if (ev.type === "error") {
+          setError(ev.error);
+          return;
+        }
+      }
+
+      if (!finalPlan) {
+        setError("Generation ended before the plan was complete. Try again.");
+        return;
+      }
+
+      const nextPlan = savePlan(coercePlan(finalPlan, ideaTrimmed, inputs));
       setPlan(nextPlan);
-      localStorage.setItem(LS_PLAN_KEY, JSON.stringify(nextPlan));
-    } catch (e: any) {
-      setError(e?.message || "Something went wrong.");
+      router.replace(`/?plan=${encodeURIComponent(nextPlan.id)}`);
+      if (validateFirst) void onValidate(nextPlan);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Something went wrong.");
     } finally {
       setLoading(false);
+      void refreshQuota();
+    }
+  }
+
+  async function onValidate(target: Plan) {
+    setError("");
+    setValidating(true);
+    try {
+      const resp = await fetch("/api/generate/report", {
+        method: "POST",
+        headers: modelHeaders(),
+        body: JSON.stringify({ plan: target }),
+      });
+      const data = await resp.json().catch(() => null);
+
+      const report = coerceReport(data?.report);
+      if (!resp.ok || !report) {
+        setError(data?.error || `Validation failed (${resp.status})`);
+        return;
+      }
+      // The stored copy may have step edits made while the report was written.
+      setPlan(savePlan(withUsage({ ...(getPlan(target.id) ?? target), validationReport: report }, data.usage)));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setValidating(false);
+      void refreshQuota();
+    }
+  }
+
+  async function onReviseStep(index: number, instruction = "") {
+    if (!plan) return;
+    setError("");
+    setBusyStep(index);
+    try {
+      const resp = await fetch("/api/generate/step", {
+        method: "POST",
+        headers: modelHeaders(),
+        body: JSON.stringify({ plan, index, instruction }),
+      });
+      const data = await resp.json().catch(() => null);
+
+      if (!resp.ok || !data) {
+        setError(data?.error || `Regenerate failed (${resp.status})`);
+        return;
+      }
+
+      const step = coerceStep(data.step, index);
+      const days = coerceCalendarDays(data.calendarDays) ?? [];
+      // The stored copy may have a report or draft that finished while this step was rewritten.
+      setPlan(savePlan(withUsage(replaceStep(getPlan(plan.id) ?? plan, index, step, days), data.usage)));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setBusyStep(null);
+      void refreshQuota();
     }
   }
 
+  async function onDraft(index: number) {
+    if (!plan) return;
+    setError("");
+    setBusyDrafts((busy) => new Set(busy).add(index));
+    try {
+      const resp = await fetch("/api/generate/draft", {
+        method: "POST",
+        headers: modelHeaders(),
+        body: JSON.stringify({ plan, index }),
+      });
+      const data = await resp.json().catch(() => null);
+
+      const draft = coerceDraft(data?.draft);
+      if (!resp.ok || !draft) {
+        setError(data?.error || `Draft failed (${resp.status})`);
+        return;
+      }
+      setPlan(savePlan(withUsage(replaceDraft(getPlan(plan.id) ?? plan, index, draft), data.usage)));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setBusyDrafts((busy) => {
+        const next = new Set(busy);
+        next.delete(index);
+        return next;
+      });
+      void refreshQuota();
+    }
+  }
+
+  function onSaveStep(index: number, step: PlanStep) {
+    if (!plan) return;
+    setPlan(savePlan(editStep(plan, index, step)));
+    setEditingStep(null);
+  }
+
+  function onRestoreStep(index: number) {
+    if (!plan) return;
+    setPlan(savePlan(restoreStep(plan, index)));
+  }
+
   function clearAll() {
     setIdea("");
     setInputs({
@@ -248,21 +309,44 @@ export default function Page() {
       differentiator: "",
       pricePoint: "",
       geography: "",
-      goal14Day: "",
+      goal: "",
       notes: "",
     });
     setPlan(null);
     setError("");
-    localStorage.removeItem(LS_PLAN_KEY);
+    // The plan stays in the library; only the form is reset.
+    router.replace("/");
+  }
+
+  function onImported(imported: Plan) {
+    setPlan(imported);
+    setIdea(imported.idea);
+    setInputs((p) => ({ ...p, ...imported.inputs }));
+    setShape(planShape(imported));
+    setTemplateId(getTemplate(imported.template).id);
+    setImporting(false);
+    setError("");
+    router.replace(`/?plan=${encodeURIComponent(imported.id)}`);
   }
 
   function goCalendar() {
-    router.push("/calendar");
+    if (!plan) return;
+    router.push(`/calendar?plan=${encodeURIComponent(plan.id)}`);
   }
 
   function onCopyPlan() {
     if (!plan) return;
-    copyText(planToText(plan));
+    copyText(toText(exportBlocks(plan, "plan", readChecks(plan))));
+  }
+
+  async function onShare() {
+    if (!plan) return;
+    try {
+      const url = await sharePlan(plan);
+      alert(`Read-only link copied:\n${url}`);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Could not share this plan.");
+    }
   }
 
   function onPrint() {
@@ -310,8 +394,8 @@ export default function Page() {
           AI Business Plan Generator
         </h1>
         <p className="mt-3 text-zinc-300">
-          Generate a 3-step plan with detailed how-to checklists, then use the 14-day
-          calendar.
+          Generate a 3–7 step plan with detailed how-to checklists, then work through it
+          on a 7 to 90-day calendar.
         </p>
 
         {/* INPUTS */}
@@ -322,39 +406,106 @@ export default function Page() {
             rows={4}
             value={idea}
             onChange={(e) => setIdea(e.target.value)}
-            placeholder="Example: Mobile car detailing for busy parents in Austin"
+            placeholder={template.placeholders.idea}
           />
 
+          <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+            <label className="font-medium text-zinc-200">Strategy</label>
+            <select
+              className="rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-2 text-sm outline-none focus:border-emerald-500/60"
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+            >
+              {TEMPLATES.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+            <label className="font-medium text-zinc-200">Steps</label>
+            <select
+              className="rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-2 text-sm outline-none focus:border-emerald-500/60"
+              value={shape.steps}
+              onChange={(e) => setShape((s) => ({ ...s, steps: Number(e.target.value) }))}
+            >
+              {STEP_COUNTS.map((n) => (
+                <option key={n} value={n}>
+                  {n} steps
+                </option>
+              ))}
+            </select>
+            <label className="font-medium text-zinc-200">Calendar</label>
+            <select
+              className="rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-2 text-sm outline-none focus:border-emerald-500/60"
+              value={shape.days}
+              onChange={(e) => setShape((s) => ({ ...s, days: Number(e.target.value) }))}
+            >
+              {HORIZONS.map((n) => (
+                <option key={n} value={n}>
+                  {n} days
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-zinc-300">
+              <input
+                type="checkbox"
+                className="accent-emerald-500"
+                checked={validateFirst}
+                onChange={(e) => setValidateFirst(e.target.checked)}
+              />
+              Validate first
+            </label>
+            <label
+              className="flex items-center gap-2 text-zinc-300"
+              title="Ask the model again instead of reusing a recent plan for the same idea and inputs"
+            >
+              <input
+                type="checkbox"
+                className="accent-emerald-500"
+                checked={forceFresh}
+                onChange={(e) => setForceFresh(e.target.checked)}
+              />
+              Force fresh
+            </label>
+          </div>
+          <div className="mt-2 text-xs text-zinc-500">{template.description}</div>
+
           <div className="mt-5 grid gap-3 md:grid-cols-2">
             <Field
               label="Target customer"
               value={inputs.targetCustomer || ""}
+              placeholder={template.placeholders.targetCustomer}
               onChange={(v) => setInputs((p) => ({ ...p, targetCustomer: v }))}
             />
             <Field
               label="Core offer"
               value={inputs.coreOffer || ""}
+              placeholder={template.placeholders.coreOffer}
               onChange={(v) => setInputs((p) => ({ ...p, coreOffer: v }))}
             />
             <Field
               label="Differentiator"
               value={inputs.differentiator || ""}
+              placeholder={template.placeholders.differentiator}
               onChange={(v) => setInputs((p) => ({ ...p, differentiator: v }))}
             />
             <Field
               label="Price point"
               value={inputs.pricePoint || ""}
+              placeholder={template.placeholders.pricePoint}
               onChange={(v) => setInputs((p) => ({ ...p, pricePoint: v }))}
             />
             <Field
               label="Geography / market"
               value={inputs.geography || ""}
+              placeholder={template.placeholders.geography}
               onChange={(v) => setInputs((p) => ({ ...p, geography: v }))}
             />
             <Field
-              label="14-day goal"
-              value={inputs.goal14Day || ""}
-              onChange={(v) => setInputs((p) => ({ ...p, goal14Day: v }))}
+              label={`${horizonLabel(shape.days)} goal`}
+              value={inputs.goal || ""}
+              placeholder={template.placeholders.goal}
+              onChange={(v) => setInputs((p) => ({ ...p, goal: v }))}
             />
           </div>
 
@@ -366,7 +517,7 @@ export default function Page() {
             rows={3}
             value={inputs.notes || ""}
             onChange={(e) => setInputs((p) => ({ ...p, notes: e.target.value }))}
-            placeholder="Budget, constraints, timeline, what you’ve tried..."
+            placeholder={template.placeholders.notes || "Budget, constraints, timeline, what you’ve tried..."}
           />
 
           <div className="mt-5 flex flex-wrap gap-2">
@@ -375,7 +526,7 @@ export default function Page() {
               disabled={loading}
               className="rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-black disabled:opacity-60"
             >
-              {loading ? "Generating..." : "Generate 3-Step Plan"}
+              {loading ? "Generating..." : `Generate ${shape.steps}-Step Plan`}
             </button>
 
             <button
@@ -390,7 +541,28 @@ export default function Page() {
               disabled={!canGoCalendar}
               className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-4 py-2 text-sm font-semibold hover:border-zinc-700 disabled:opacity-50"
             >
-              Go to 14-Day Calendar
+              Go to {(plan ? planShape(plan) : shape).days}-Day Calendar
+            </button>
+
+            <button
+              onClick={() => router.push("/plans")}
+              className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-4 py-2 text-sm font-semibold hover:border-zinc-700"
+            >
+              Saved plans
+            </button>
+
+            <button
+              onClick={() => router.push("/compare")}
+              className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-4 py-2 text-sm font-semibold hover:border-zinc-700"
+            >
+              Compare ideas
+            </button>
+
+            <button
+              onClick={() => setImporting((v) => !v)}
+              className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-4 py-2 text-sm font-semibold hover:border-zinc-700"
+            >
+              Import
             </button>
 
             <button
@@ -401,6 +573,21 @@ export default function Page() {
               Copy plan
             </button>
 
+            <button
+              onClick={onShare}
+              disabled={!plan}
+              className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-4 py-2 text-sm font-semibold hover:border-zinc-700 disabled:opacity-50"
+            >
+              Share link
+            </button>
+
+            <ExportMenu
+              plan={plan}
+              kind="plan"
+              checks={() => (plan ? readChecks(plan) : {})}
+              onError={setError}
+            />
+
             <button
               onClick={onPrint}
               disabled={!plan}
@@ -410,6 +597,17 @@ export default function Page() {
             </button>
           </div>
 
+          {quota ? (
+            <div className={`mt-2 text-xs ${quota.remaining ? "text-zinc-500" : "text-amber-300"}`}>
+              {quota.remaining
+                ? `${quota.remaining} of ${quota.limit} AI requests left today.`
+                : "No AI requests left today."}{" "}
+              Resets {new Date(quota.resetAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}.
+            </div>
+          ) : null}
+
+          {importing ? <ImportPanel onImported={onImported} onClose={() => setImporting(false)} /> : null}
+
           {error ? (
             <div className="mt-3 rounded-xl border border-red-900/50 bg-red-950/30 p-3 text-sm text-red-200">
               {error}
@@ -428,46 +626,133 @@ export default function Page() {
               <div className="mt-1 text-xs text-zinc-500 print-muted">
                 Generated: {new Date(plan.createdAt).toLocaleString()}
               </div>
-            </div>
-
-            {plan.steps.map((s, idx) => (
-              <div
-                key={idx}
-                className="print-card rounded-2xl border border-zinc-800 bg-zinc-900/30 p-5"
-              >
-                <div className="text-xs font-semibold text-emerald-300 no-print">
-                  STEP {idx + 1}
+              {plan.usage ? (
+                <div className="no-print mt-1 text-xs text-zinc-500">Model usage: {usageLabel(plan.usage)}</div>
+              ) : null}
+              {plan.validation?.cachedAt ? (
+                <div className="no-print mt-1 text-xs text-zinc-500">
+                  Reused a plan generated {new Date(plan.validation.cachedAt).toLocaleString()} for the same idea
+                  and inputs. Tick “Force fresh” to ask the model again.
                 </div>
-                <div className="text-lg font-extrabold">
-                  Step {idx + 1}: {s.title}
+              ) : null}
+              {plan.validation?.fallbacks.length ? (
+                <div className="no-print mt-3 rounded-xl border border-amber-900/50 bg-amber-950/30 p-3 text-xs text-amber-200">
+                  The model left some fields thin, so defaults were used for:{" "}
+                  {plan.validation.fallbacks.join(", ")}. Regenerate for a fuller plan.
                 </div>
-
-                {s.summary ? (
-                  <div className="print-muted mt-2 text-sm text-zinc-300">
-                    {s.summary}
+              ) : null}
+              {plan.kpis?.length ? (
+                <div className="mt-3">
+                  <div className="text-xs uppercase tracking-wide text-zinc-400 print-muted">
+                    {horizonLabel(planShape(plan).days)} KPI targets
                   </div>
-                ) : null}
-
-                <div className="mt-4 grid gap-3">
-                  <Section title="What this step does" bullets={s.whatThisDoes} />
-                  <Section
-                    title="How to do it (checklist)"
-                    bullets={s.howTo}
-                    checkboxStyle
-                  />
-                  {s.output ? (
-                    <div className="rounded-xl border border-zinc-800 bg-black/20 p-4 print-card">
-                      <div className="text-sm font-semibold text-zinc-200">
-                        Output
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {plan.kpis.map((k) => (
+                      <div key={k.id} className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm">
+                        <span className="text-zinc-400">{k.name}:</span>{" "}
+                        <span className="font-semibold">{formatKpi(k.target, k.unit)}</span>
                       </div>
-                      <div className="print-muted mt-2 text-sm text-zinc-300">
-                        {s.output}
-                      </div>
-                    </div>
-                  ) : null}
+                    ))}
+                  </div>
                 </div>
+              ) : null}
+            </div>
+
+            <CoachPanel
+              key={plan.id}
+              plan={plan}
+              checks={readChecks(plan)}
+              onUsage={(usage) => setPlan(savePlan(withUsage(getPlan(plan.id) ?? plan, usage)))}
+            />
+
+            {plan.validationReport ? (
+              <ReportCard
+                report={plan.validationReport}
+                pricePoint={plan.inputs.pricePoint || ""}
+                actions={
+                  <button
+                    onClick={() => onValidate(plan)}
+                    disabled={validating}
+                    className="rounded-lg border border-zinc-800 bg-zinc-950/40 px-3 py-1 text-xs font-semibold hover:border-zinc-700 disabled:opacity-50"
+                  >
+                    {validating ? "Validating..." : "Re-run validation"}
+                  </button>
+                }
+              />
+            ) : (
+              <div className="no-print flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-dashed border-zinc-800 bg-zinc-900/20 p-5 text-sm text-zinc-400">
+                <div>
+                  Not sure the idea is worth {planShape(plan).days} days? Check the customer, competitors, pricing
+                  and key assumptions first.
+                </div>
+                <button
+                  onClick={() => onValidate(plan)}
+                  disabled={validating}
+                  className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-4 py-2 text-sm font-semibold hover:border-zinc-700 disabled:opacity-50"
+                >
+                  {validating ? "Validating..." : "Validate this idea"}
+                </button>
               </div>
-            ))}
+            )}
+
+            {plan.steps.map((s, idx) =>
+              editingStep === idx ? (
+                <StepEditor
+                  key={idx}
+                  step={s}
+                  index={idx}
+                  onSave={(next) => onSaveStep(idx, next)}
+                  onCancel={() => setEditingStep(null)}
+                />
+              ) : (
+                <React.Fragment key={idx}>
+                  <StepCard
+                    step={s}
+                    index={idx}
+                    edited={STEP_FIELDS.filter((f) => isEdited(plan, stepFieldKey(idx, f)))}
+                    actions={
+                      <StepActions
+                        busy={busyStep === idx}
+                        disabled={busyStep !== null}
+                        historyCount={plan.stepHistory?.[idx]?.length ?? 0}
+                        drafting={busyDrafts.has(idx)}
+                        hasDraft={!!plan.drafts?.[idx]}
+                        onEdit={() => setEditingStep(idx)}
+                        onRegenerate={() => onReviseStep(idx)}
+                        onRefine={(instruction) => onReviseStep(idx, instruction)}
+                        onRestore={() => onRestoreStep(idx)}
+                        onDraft={() => onDraft(idx)}
+                      />
+                    }
+                  />
+                  {plan.drafts?.[idx] ? (
+                    <DraftCard
+                      draft={plan.drafts[idx]!}
+                      busy={busyDrafts.has(idx)}
+                      modified={isEdited(plan, draftKey(idx))}
+                      onSave={(next) => setPlan(savePlan(editDraft(plan, idx, next)))}
+                      onRedraft={() => onDraft(idx)}
+                      onDelete={() => setPlan(savePlan(replaceDraft(plan, idx, null)))}
+                    />
+                  ) : null}
+                </React.Fragment>
+              )
+            )}
+          </div>
+        ) : loading ? (
+          <div className="mt-8 space-y-4">
+            {Array.from({ length: shape.steps }, (_, idx) =>
+              draftSteps[idx] ? (
+                <StepCard key={idx} step={draftSteps[idx]!} index={idx} />
+              ) : (
+                <div
+                  key={idx}
+                  className="rounded-2xl border border-dashed border-zinc-800 bg-zinc-900/20 p-5 text-sm text-zinc-500"
+                >
+                  Generating step {idx + 1}...
+                </div>
+              )
+            )}
           </div>
         ) : null}
       </div>
@@ -478,10 +763,12 @@ export default function Page() {
 function Field({
   label,
   value,
+  placeholder,
   onChange,
 }: {
   label: string;
   value: string;
+  placeholder?: string;
   onChange: (v: string) => void;
 }) {
   return (
@@ -491,40 +778,90 @@ function Field({
         className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/60 p-3 text-sm outline-none focus:border-emerald-500/60"
         value={value}
         onChange={(e) => onChange(e.target.value)}
-        placeholder="(optional)"
+        placeholder={placeholder ? `${placeholder} (optional)` : "(optional)"}
       />
     </div>
   );
 }
 
-function Section({
-  title,
-  bullets,
-  checkboxStyle,
+function StepActions({
+  busy,
+  disabled,
+  historyCount,
+  drafting,
+  hasDraft,
+  onEdit,
+  onRegenerate,
+  onRefine,
+  onRestore,
+  onDraft,
 }: {
-  title: string;
-  bullets: string[];
-  checkboxStyle?: boolean;
+  busy: boolean;
+  disabled: boolean;
+  historyCount: number;
+  drafting: boolean;
+  hasDraft: boolean;
+  onEdit: () => void;
+  onRegenerate: () => void;
+  onRefine: (instruction: string) => void;
+  onRestore: () => void;
+  onDraft: () => void;
 }) {
-  const items = (bullets || []).filter(Boolean);
+  const [refining, setRefining] = useState(false);
+  const [instruction, setInstruction] = useState("");
+
+  function submitRefine() {
+    const text = instruction.trim();
+    if (!text) return;
+    onRefine(text);
+    setRefining(false);
+    setInstruction("");
+  }
+
+  const btn =
+    "rounded-lg border border-zinc-800 bg-zinc-950/40 px-3 py-1 text-xs font-semibold hover:border-zinc-700 disabled:opacity-50";
 
   return (
-    <div className="rounded-xl border border-zinc-800 bg-black/20 p-4 print-card">
-      <div className="text-sm font-semibold text-zinc-200">{title}</div>
-
-      {items.length ? (
-        <ul className="print-muted mt-2 space-y-2 text-sm text-zinc-300">
-          {items.map((b, i) => (
-            <li key={i} className="leading-relaxed">
-              {checkboxStyle ? `□ ${b}` : `• ${b}`}
-            </li>
-          ))}
-        </ul>
-      ) : (
-        <div className="print-muted mt-2 text-sm text-zinc-500">
-          No details returned for this section.
+    <div>
+      <div className="flex flex-wrap gap-2">
+        <button onClick={onEdit} disabled={disabled} className={btn}>
+          Edit
+        </button>
+        <button onClick={onRegenerate} disabled={disabled} className={btn}>
+          {busy ? "Working..." : "Regenerate this step"}
+        </button>
+        <button onClick={() => setRefining((v) => !v)} disabled={disabled} className={btn}>
+          Refine with instruction
+        </button>
+        {historyCount ? (
+          <button onClick={onRestore} disabled={disabled} className={btn}>
+            Restore previous ({historyCount})
+          </button>
+        ) : null}
+        {!hasDraft ? (
+          <button onClick={onDraft} disabled={drafting} className={btn}>
+            {drafting ? "Drafting..." : "Draft this"}
+          </button>
+        ) : null}
+      </div>
+
+      {refining ? (
+        <div className="mt-2 flex gap-2">
+          <input
+            autoFocus
+            className="flex-1 rounded-lg border border-zinc-800 bg-zinc-950/60 px-3 py-1 text-sm outline-none focus:border-emerald-500/60"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submitRefine();
+            }}
+            placeholder="e.g. Focus on Instagram instead of cold email"
+          />
+          <button onClick={submitRefine} disabled={disabled || !instruction.trim()} className={btn}>
+            Refine
+          </button>
         </div>
-      )}
+      ) : null}
     </div>
   );
-}
\ No newline at end of file
+}
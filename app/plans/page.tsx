@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useMemo, useState, useSyncExternalStore } from "react";
+import { useRouter } from "next/navigation";
+import {
+  deletePlan,
+  duplicatePlan,
+  listPlansSnapshot,
+  planName,
+  renamePlan,
+  subscribeStorage,
+  togglePin,
+} from "@/lib/library";
+import type { Plan } from "@/lib/plan";
+
+const NO_PLANS: Plan[] = [];
+
+export default function PlansPage() {
+  const router = useRouter();
+  // The server render has no localStorage; the browser fills the list in after hydration.
+  const plans = useSyncExternalStore(subscribeStorage, listPlansSnapshot, () => NO_PLANS);
+  // Changes made on this page re-render it, which reads the library again.
+  const [, setVersion] = useState(0);
+  const [query, setQuery] = useState("");
+  const [editingId, setEditingId] = useState("");
+  const [draftName, setDraftName] = useState("");
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return plans;
+    return plans.filter((p) =>
+      [planName(p), p.idea, ...p.steps.map((s) => s.title)].some((t) =>
+        t.toLowerCase().includes(q)
+      )
+    );
+  }, [plans, query]);
+
+  function refresh() {
+    setVersion((v) => v + 1);
+  }
+
+  function startRename(p: Plan) {
+    setEditingId(p.id);
+    setDraftName(planName(p));
+  }
+
+  function commitRename() {
+    if (editingId) renamePlan(editingId, draftName);
+    setEditingId("");
+    refresh();
+  }
+
+  function onDuplicate(id: string) {
+    duplicatePlan(id);
+    refresh();
+  }
+
+  function onPin(id: string) {
+    togglePin(id);
+    refresh();
+  }
+
+  function onDelete(p: Plan) {
+    if (!confirm(`Delete "${planName(p)}" and its calendar progress?`)) return;
+    deletePlan(p.id);
+    refresh();
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-100">
+      <div className="mx-auto max-w-4xl px-6 py-10">
+        <div className="flex items-center justify-between gap-3">
+          <button
+            onClick={() => router.push("/")}
+            className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900"
+          >
+            ← New plan
+          </button>
+          <div className="text-sm text-zinc-400">
+            {plans.length} saved {plans.length === 1 ? "plan" : "plans"}
+          </div>
+        </div>
+
+        <h1 className="mt-6 text-3xl font-extrabold tracking-tight">Saved plans</h1>
+
+        <input
+          className="mt-6 w-full rounded-xl border border-zinc-800 bg-zinc-950/60 p-3 text-sm outline-none focus:border-emerald-500/60"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name, idea or step title"
+        />
+
+        <div className="mt-6 space-y-3">
+          {visible.map((p) => (
+            <div
+              key={p.id}
+              className="rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  {editingId === p.id ? (
+                    <input
+                      autoFocus
+                      className="w-full rounded-lg border border-zinc-700 bg-zinc-950/60 px-2 py-1 text-lg font-bold outline-none focus:border-emerald-500/60"
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") setEditingId("");
+                      }}
+                    />
+                  ) : (
+                    <div className="truncate text-lg font-bold">
+                      {p.pinned ? "📌 " : ""}
+                      {planName(p)}
+                    </div>
+                  )}
+                  {p.name ? (
+                    <div className="mt-1 truncate text-sm text-zinc-400">{p.idea}</div>
+                  ) : null}
+                  <div className="mt-1 text-xs text-zinc-500">
+                    Generated {new Date(p.createdAt).toLocaleString()}
+                    {p.parentId ? ` · Sprint ${p.sprint ?? 2}` : ""}
+                    {p.retro ? " · Reviewed" : ""}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap justify-end gap-2">
+                  <PlanAction onClick={() => router.push(`/?plan=${encodeURIComponent(p.id)}`)}>
+                    Open
+                  </PlanAction>
+                  <PlanAction
+                    onClick={() => router.push(`/calendar?plan=${encodeURIComponent(p.id)}`)}
+                  >
+                    Calendar
+                  </PlanAction>
+                  <PlanAction onClick={() => startRename(p)}>Rename</PlanAction>
+                  <PlanAction onClick={() => onDuplicate(p.id)}>Duplicate</PlanAction>
+                  <PlanAction onClick={() => onPin(p.id)}>{p.pinned ? "Unpin" : "Pin"}</PlanAction>
+                  <PlanAction onClick={() => onDelete(p)} danger>
+                    Delete
+                  </PlanAction>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {!visible.length ? (
+            <div className="rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4 text-sm text-zinc-400">
+              {plans.length ? "No plans match your search." : "No saved plans yet. Generate one to get started."}
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PlanAction({
+  onClick,
+  danger,
+  children,
+}: {
+  onClick: () => void;
+  danger?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`rounded-lg border px-3 py-1 text-xs font-semibold ${
+        danger
+          ? "border-red-900/60 text-red-300 hover:bg-red-950/40"
+          : "border-zinc-800 bg-zinc-950/40 hover:border-zinc-700"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
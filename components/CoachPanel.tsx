@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { planDays } from "@/lib/calendar";
+import { COACH_MAX_MESSAGE, coachSuggestions, type CoachMessage } from "@/lib/coach";
+import { currentSprintDay } from "@/lib/kpi";
+import { modelHeaders, readCoach, writeCoach } from "@/lib/library";
+import { coerceUsage, type Checks, type Plan, type PlanUsage } from "@/lib/plan";
+
+const smallBtn =
+  "rounded-lg border border-zinc-800 bg-zinc-950/40 px-2 py-1 text-xs font-semibold hover:border-zinc-700 disabled:opacity-40";
+
+/**
+ * Chat about the plan. Each question goes out with the plan, the chosen day's
+ * tasks and the checkbox progress; the conversation is saved per plan. Mount
+ * with `key={plan.id}` so switching plans loads that plan's history.
+ * `onUsage` gets each answer's model usage for the plan's running total.
+ */
+export default function CoachPanel({
+  plan,
+  checks,
+  onUsage,
+}: {
+  plan: Plan;
+  checks: Checks;
+  onUsage?: (usage: PlanUsage) => void;
+}) {
+  const days = useMemo(() => planDays(plan), [plan]);
+  const [open, setOpen] = useState(false);
+  const [day, setDay] = useState(() => Math.max(1, currentSprintDay(plan)));
+  const [history, setHistory] = useState<CoachMessage[]>(() => readCoach(plan));
+  const [question, setQuestion] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  function save(next: CoachMessage[]) {
+    setHistory(next);
+    writeCoach(plan, next);
+  }
+
+  async function ask(text: string) {
+    const content = text.trim();
+    if (!content || busy) return;
+    setError("");
+    setBusy(true);
+    const asked = [...history, { role: "user" as const, content, createdAt: new Date().toISOString() }];
+    save(asked);
+    setQuestion("");
+    try {
+      const resp = await fetch("/api/coach", {
+        method: "POST",
+        headers: modelHeaders(),
+        body: JSON.stringify({ plan, checks, day, messages: asked }),
+      });
+      const data = await resp.json().catch(() => null);
+      if (!resp.ok || !data?.reply) {
+        // Put the question back so it can be sent again.
+        save(history);
+        setQuestion(content);
+        setError(data?.error || `Coach failed (${resp.status})`);
+        return;
+      }
+      save([...asked, { role: "assistant", content: data.reply, createdAt: new Date().toISOString() }]);
+      const usage = coerceUsage(data.usage);
+      if (usage) onUsage?.(usage);
+    } catch (e: unknown) {
+      save(history);
+      setQuestion(content);
+      setError(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function clear() {
+    if (!confirm("Clear this plan's coach conversation?")) return;
+    save([]);
+  }
+
+  return (
+    <div className="no-print mt-6 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="text-sm font-semibold text-zinc-200">Plan coach</div>
+          <div className="text-xs text-zinc-500">
+            Ask about a task or have a step’s output drafted. Answers use this plan and your progress.
+          </div>
+        </div>
+        <button onClick={() => setOpen((v) => !v)} className={smallBtn}>
+          {open ? "Hide" : history.length ? `Open (${history.length})` : "Open"}
+        </button>
+      </div>
+
+      {open && (
+        <>
+          <label className="mt-3 flex items-center gap-2 text-xs text-zinc-400">
+            Context day
+            <select
+              className="rounded-lg border border-zinc-800 bg-zinc-950/60 px-2 py-1 text-xs outline-none focus:border-emerald-500/60"
+              value={day}
+              onChange={(e) => setDay(Number(e.target.value))}
+            >
+              {days.map((d) => (
+                <option key={d.day} value={d.day}>
+                  Day {d.day}: {d.focus}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="mt-3 max-h-[480px] space-y-3 overflow-y-auto">
+            {history.map((m, i) => (
+              <div
+                key={i}
+                className={`rounded-xl border p-3 text-sm ${
+                  m.role === "user"
+                    ? "ml-8 border-emerald-900/50 bg-emerald-950/20 text-zinc-100"
+                    : "mr-8 border-zinc-800 bg-zinc-950/40 text-zinc-300"
+                }`}
+              >
+                <div className="whitespace-pre-wrap leading-relaxed">{m.content}</div>
+                {m.role === "assistant" && (
+                  <button
+                    onClick={() => navigator.clipboard?.writeText(m.content).catch(() => {})}
+                    className={`${smallBtn} mt-2`}
+                  >
+                    Copy
+                  </button>
+                )}
+              </div>
+            ))}
+            {busy && <div className="mr-8 text-sm text-zinc-500">Thinking...</div>}
+          </div>
+
+          {!history.length && (
+            <div className="mt-3 flex flex-wrap gap-2">
+              {coachSuggestions(plan, day).map((s) => (
+                <button key={s} onClick={() => ask(s)} disabled={busy} className={`${smallBtn} text-left`}>
+                  {s}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {error ? (
+            <div className="mt-3 rounded-xl border border-red-900/50 bg-red-950/30 p-3 text-sm text-red-200">{error}</div>
+          ) : null}
+
+          <textarea
+            className="mt-3 min-h-[70px] w-full rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-2 text-sm text-zinc-100 outline-none focus:border-emerald-500/60"
+            maxLength={COACH_MAX_MESSAGE}
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                ask(question);
+              }
+            }}
+            placeholder="e.g. What makes a good hook for my offer? (Enter to send, Shift+Enter for a new line)"
+          />
+          <div className="mt-2 flex gap-2">
+            <button
+              onClick={() => ask(question)}
+              disabled={busy || !question.trim()}
+              className="rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-black hover:brightness-105 disabled:opacity-50"
+            >
+              {busy ? "Asking..." : "Ask"}
+            </button>
+            <button
+              onClick={clear}
+              disabled={busy || !history.length}
+              className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900 disabled:opacity-50"
+            >
+              Clear conversation
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
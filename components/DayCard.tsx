@@ -0,0 +1,71 @@
+import React from "react";
+import { ModifiedBadge } from "@/components/StepCard";
+import type { Day } from "@/lib/calendar";
+import type { Checks } from "@/lib/plan";
+
+/** One calendar day. Without `onToggle` the checkboxes are read-only. */
+export default function DayCard({
+  day: d,
+  checks,
+  onToggle,
+  modified,
+}: {
+  day: Day;
+  checks: Checks;
+  onToggle?: (idx: number) => void;
+  modified?: boolean;
+}) {
+  return (
+    <div className="print-card rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="text-lg font-extrabold">
+            Day {d.day}
+            {modified ? <ModifiedBadge /> : null}
+          </div>
+          <div className="print-muted mt-1 text-sm text-zinc-400">Focus: {d.focus}</div>
+        </div>
+        <div className="print-muted text-xs text-zinc-500">{d.dateLabel}</div>
+      </div>
+
+      {/* interactive checkboxes (screen) */}
+      <div className="no-print mt-3 space-y-2">
+        {d.tasks.map((t, idx) => {
+          const doneAt = checks[d.taskIds[idx]];
+          const done = !!doneAt;
+          return (
+            <label
+              key={idx}
+              title={typeof doneAt === "string" ? `Done ${new Date(doneAt).toLocaleString()}` : undefined}
+              className={`flex items-start gap-3 rounded-xl border border-zinc-800 bg-zinc-950/30 p-3 ${
+                onToggle ? "cursor-pointer hover:bg-zinc-950/50" : ""
+              }`}
+            >
+              <input
+                type="checkbox"
+                className="mt-0.5 h-4 w-4 accent-emerald-500"
+                checked={done}
+                disabled={!onToggle}
+                onChange={() => onToggle?.(idx)}
+              />
+              <span className={done ? "text-zinc-500 line-through" : "text-zinc-200"}>
+                {t}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+
+      {/* print version (no checkboxes) */}
+      <div className="hidden print:block mt-3">
+        <ul className="ml-5 list-disc">
+          {d.tasks.map((t, idx) => (
+            <li key={idx} className="text-sm text-zinc-900">
+              {t}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Day } from "@/lib/calendar";
+import { newTaskId, type DayTask } from "@/lib/plan";
+
+const inputCls =
+  "w-full rounded-lg border border-zinc-800 bg-zinc-950/60 px-3 py-2 text-sm outline-none focus:border-emerald-500/60";
+const smallBtn =
+  "rounded-lg border border-zinc-800 bg-zinc-950/40 px-2 py-1 text-xs font-semibold hover:border-zinc-700 disabled:opacity-40";
+
+/**
+ * Edits one calendar day's tasks. Text edits are saved with "Save day";
+ * moving a task to another day applies straight away.
+ */
+export default function DayEditor({
+  day: d,
+  tasks,
+  dayCount,
+  onSave,
+  onMove,
+}: {
+  day: Day;
+  tasks: DayTask[];
+  dayCount: number;
+  onSave: (tasks: DayTask[]) => void;
+  onMove: (idx: number, toDay: number) => void;
+}) {
+  const [draft, setDraft] = useState<DayTask[]>(tasks);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(tasks);
+
+  function move(i: number, delta: number) {
+    const j = i + delta;
+    if (j < 0 || j >= draft.length) return;
+    const next = [...draft];
+    [next[i], next[j]] = [next[j], next[i]];
+    setDraft(next);
+  }
+
+  return (
+    <div className="rounded-2xl border border-emerald-900/60 bg-zinc-900/30 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="text-lg font-extrabold">Day {d.day}</div>
+          <div className="mt-1 text-sm text-zinc-400">Focus: {d.focus}</div>
+        </div>
+        <div className="text-xs text-zinc-500">{d.dateLabel}</div>
+      </div>
+
+      <div className="mt-3 space-y-2">
+        {draft.map((t, i) => (
+          <div key={t.id} className="flex items-center gap-2">
+            <input
+              className={inputCls}
+              value={t.text}
+              onChange={(e) => setDraft(draft.map((x, j) => (j === i ? { ...x, text: e.target.value } : x)))}
+            />
+            <button onClick={() => move(i, -1)} disabled={i === 0} className={smallBtn} title="Move up">
+              ↑
+            </button>
+            <button
+              onClick={() => move(i, 1)}
+              disabled={i === draft.length - 1}
+              className={smallBtn}
+              title="Move down"
+            >
+              ↓
+            </button>
+            <select
+              className="rounded-lg border border-zinc-800 bg-zinc-950/60 px-2 py-1 text-xs disabled:opacity-40"
+              value=""
+              disabled={dirty || i >= tasks.length}
+              title={dirty ? "Save this day before moving tasks" : "Move to another day"}
+              onChange={(e) => onMove(i, Number(e.target.value))}
+            >
+              <option value="">Move to…</option>
+              {Array.from({ length: dayCount }, (_, k) => k + 1)
+                .filter((n) => n !== d.day)
+                .map((n) => (
+                  <option key={n} value={n}>
+                    Day {n}
+                  </option>
+                ))}
+            </select>
+            <button
+              onClick={() => setDraft(draft.filter((_, j) => j !== i))}
+              className={smallBtn}
+              title="Delete"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 flex gap-2">
+        <button onClick={() => setDraft([...draft, { id: newTaskId(), text: "" }])} className={smallBtn}>
+          + Add task
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!dirty}
+          className="rounded-lg bg-emerald-500 px-3 py-1 text-xs font-semibold text-black disabled:opacity-40"
+        >
+          Save day
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useState } from "react";
+import { ModifiedBadge } from "@/components/StepCard";
+import { DRAFT_KIND_LABELS, MAX_DRAFT_SECTIONS, type StepDraft } from "@/lib/plan";
+
+const btn =
+  "rounded-lg border border-zinc-800 bg-zinc-950/40 px-3 py-1 text-xs font-semibold hover:border-zinc-700 disabled:opacity-50";
+const inputCls =
+  "w-full rounded-lg border border-zinc-800 bg-zinc-950/60 px-3 py-1.5 text-sm outline-none focus:border-emerald-500/60";
+
+function draftText(d: StepDraft) {
+  return [d.title, ...d.sections.map((s) => [s.heading, s.body].filter(Boolean).join("\n"))].join("\n\n");
+}
+
+/**
+ * A step's drafted deliverable under its step card. Editing happens in place;
+ * `onSave` gets the edited draft and `onRedraft` asks the model for a new one.
+ */
+export default function DraftCard({
+  draft,
+  busy,
+  modified,
+  onSave,
+  onRedraft,
+  onDelete,
+}: {
+  draft: StepDraft;
+  busy: boolean;
+  modified?: boolean;
+  onSave: (draft: StepDraft) => void;
+  onRedraft: () => void;
+  onDelete: () => void;
+}) {
+  const [editing, setEditing] = useState<StepDraft | null>(null);
+
+  function setSection(i: number, patch: Partial<StepDraft["sections"][number]>) {
+    setEditing((d) => d && { ...d, sections: d.sections.map((s, j) => (j === i ? { ...s, ...patch } : s)) });
+  }
+
+  if (editing) {
+    return (
+      <div className="no-print ml-4 rounded-2xl border border-emerald-900/60 bg-zinc-900/30 p-5">
+        <div className="text-xs font-semibold text-emerald-300">EDIT DRAFT</div>
+        <input
+          className={`${inputCls} mt-2 font-semibold`}
+          value={editing.title}
+          onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+        />
+        <div className="mt-3 space-y-3">
+          {editing.sections.map((s, i) => (
+            <div key={i} className="rounded-xl border border-zinc-800 bg-black/20 p-3">
+              <div className="flex gap-2">
+                <input
+                  className={inputCls}
+                  value={s.heading}
+                  onChange={(e) => setSection(i, { heading: e.target.value })}
+                  placeholder="Heading"
+                />
+                <button
+                  onClick={() => setEditing({ ...editing, sections: editing.sections.filter((_, j) => j !== i) })}
+                  className={btn}
+                >
+                  Remove
+                </button>
+              </div>
+              <textarea
+                className={`${inputCls} mt-2 min-h-[90px]`}
+                value={s.body}
+                onChange={(e) => setSection(i, { body: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="mt-3 flex flex-wrap gap-2">
+          <button
+            onClick={() => setEditing({ ...editing, sections: [...editing.sections, { heading: "", body: "" }] })}
+            disabled={editing.sections.length >= MAX_DRAFT_SECTIONS}
+            className={btn}
+          >
+            Add section
+          </button>
+          <button
+            onClick={() => {
+              onSave(editing);
+              setEditing(null);
+            }}
+            className="rounded-lg bg-emerald-500 px-3 py-1 text-xs font-semibold text-black hover:brightness-105"
+          >
+            Save draft
+          </button>
+          <button onClick={() => setEditing(null)} className={btn}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="print-card ml-4 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-5">
+      <div className="text-xs font-semibold uppercase text-emerald-300 no-print">
+        Draft · {DRAFT_KIND_LABELS[draft.kind]}
+      </div>
+      <div className="text-base font-bold">
+        {draft.title}
+        {modified ? <ModifiedBadge /> : null}
+      </div>
+      <div className="mt-3 space-y-3">
+        {draft.sections.map((s, i) => (
+          <div key={i} className="rounded-xl border border-zinc-800 bg-black/20 p-4 print-card">
+            {s.heading ? <div className="text-sm font-semibold text-zinc-200">{s.heading}</div> : null}
+            <div className="print-muted mt-1 whitespace-pre-wrap text-sm leading-relaxed text-zinc-300">{s.body}</div>
+          </div>
+        ))}
+      </div>
+      <div className="no-print mt-4 flex flex-wrap gap-2">
+        <button onClick={() => setEditing(draft)} disabled={busy} className={btn}>
+          Edit draft
+        </button>
+        <button onClick={onRedraft} disabled={busy} className={btn}>
+          {busy ? "Drafting..." : "Redraft"}
+        </button>
+        <button
+          onClick={() => navigator.clipboard?.writeText(draftText(draft)).catch(() => {})}
+          className={btn}
+        >
+          Copy
+        </button>
+        <button
+          onClick={() => {
+            if (confirm("Delete this draft?")) onDelete();
+          }}
+          disabled={busy}
+          className={btn}
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
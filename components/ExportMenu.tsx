@@ -0,0 +1,60 @@
+"use client";
+
+import React, { useState } from "react";
+import { downloadExport, downloadPdf, type ExportFormat } from "@/lib/download";
+import type { ExportKind } from "@/lib/export";
+import type { Checks, Plan } from "@/lib/plan";
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "pdf", label: "PDF" },
+  { format: "md", label: "Markdown (.md)" },
+  { format: "docx", label: "Word (.docx)" },
+  { format: "json", label: "JSON (re-importable)" },
+];
+
+/** Download menu for every export format. `checks` is read when a download starts. */
+export default function ExportMenu({
+  plan,
+  kind,
+  checks,
+  onError,
+}: {
+  plan: Plan | null;
+  kind: ExportKind;
+  checks: () => Checks;
+  onError: (message: string) => void;
+}) {
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+
+  async function run(format: ExportFormat) {
+    if (!plan) return;
+    setBusy(format);
+    try {
+      if (format === "pdf") await downloadPdf(plan, kind, checks());
+      else await downloadExport(plan, kind, format, checks());
+    } catch (e: unknown) {
+      onError(e instanceof Error ? e.message : "Could not export this plan.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <select
+      value=""
+      disabled={!plan || !!busy}
+      onChange={(e) => run(e.target.value as ExportFormat)}
+      className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm font-semibold hover:border-zinc-700 disabled:opacity-50"
+    >
+      <option value="" disabled>
+        {busy ? "Exporting…" : "Download…"}
+      </option>
+      {FORMATS.map((f) => (
+        <option key={f.format} value={f.format}>
+          {/* Calendar Markdown has no steps, so Import cannot rebuild a plan from it. */}
+          {kind === "calendar" && f.format === "md" ? "Markdown (.md, not re-importable)" : f.label}
+        </option>
+      ))}
+    </select>
+  );
+}
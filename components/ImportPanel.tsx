@@ -0,0 +1,77 @@
+"use client";
+
+import React, { useState } from "react";
+import { ImportError, parseImport } from "@/lib/import";
+import { importPlan } from "@/lib/library";
+import type { Plan } from "@/lib/plan";
+
+/** Paste or upload a JSON export or a Markdown plan and add it to saved plans. */
+export default function ImportPanel({
+  onImported,
+  onClose,
+}: {
+  onImported: (plan: Plan) => void;
+  onClose: () => void;
+}) {
+  const [text, setText] = useState("");
+  const [error, setError] = useState("");
+
+  async function onFile(file: File | undefined) {
+    if (!file) return;
+    setError("");
+    setText(await file.text());
+  }
+
+  function onImport() {
+    setError("");
+    try {
+      const { plan, checks } = parseImport(text);
+      onImported(importPlan(plan, checks));
+    } catch (e: unknown) {
+      setError(e instanceof ImportError ? e.message : "Could not import this plan.");
+    }
+  }
+
+  return (
+    <div className="mt-5 rounded-2xl border border-zinc-800 bg-black/20 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm font-semibold text-zinc-200">Import a plan</div>
+        <input
+          type="file"
+          accept=".json,.md,.markdown,.txt,application/json,text/markdown,text/plain"
+          onChange={(e) => onFile(e.target.files?.[0])}
+          className="text-xs text-zinc-400 file:mr-2 file:rounded-lg file:border file:border-zinc-800 file:bg-zinc-950/40 file:px-2 file:py-1 file:text-xs file:font-semibold file:text-zinc-200"
+        />
+      </div>
+      <div className="mt-1 text-xs text-zinc-500">
+        A JSON export from this app, or Markdown with &quot;## Step 1: Title&quot; headings and bullet lists.
+      </div>
+
+      <textarea
+        className="mt-3 w-full rounded-xl border border-zinc-800 bg-zinc-950/60 p-3 font-mono text-xs outline-none focus:border-emerald-500/60"
+        rows={8}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Paste JSON or Markdown here..."
+      />
+
+      {error ? <div className="mt-2 text-sm text-red-300">{error}</div> : null}
+
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={onImport}
+          disabled={!text.trim()}
+          className="rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-black disabled:opacity-60"
+        >
+          Import plan
+        </button>
+        <button
+          onClick={onClose}
+          className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-4 py-2 text-sm font-semibold hover:border-zinc-700"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { Day } from "@/lib/calendar";
+import {
+  addKpi,
+  currentSprintDay,
+  formatKpi,
+  KPI_STATUS_LABELS,
+  kpiProgress,
+  removeKpi,
+  setKpiActual,
+  type KpiProgress,
+  type KpiStatus,
+} from "@/lib/kpi";
+import { MAX_KPIS, type Plan } from "@/lib/plan";
+
+const CHART_W = 240;
+const CHART_H = 60;
+
+const inputCls =
+  "rounded-lg border border-zinc-800 bg-zinc-950/60 px-3 py-1.5 text-sm outline-none focus:border-emerald-500/60";
+const smallBtn =
+  "rounded-lg border border-zinc-800 bg-zinc-950/40 px-2 py-1 text-xs font-semibold hover:border-zinc-700 disabled:opacity-40";
+
+const STATUS_CLS: Record<KpiStatus, string> = {
+  "not-started": "border-zinc-800 text-zinc-400",
+  "on-track": "border-emerald-800 bg-emerald-950/40 text-emerald-200",
+  "off-track": "border-amber-800 bg-amber-950/40 text-amber-200",
+  done: "border-emerald-700 bg-emerald-600/60 text-white",
+};
+
+/** Running total against the straight line to the target. */
+function KpiChart({ p }: { p: KpiProgress }) {
+  const n = p.points.length;
+  const top = Math.max(p.kpi.target, p.total);
+  const x = (i: number) => (i / n) * CHART_W;
+  const y = (v: number) => CHART_H - (v / top) * CHART_H;
+  const actual = p.points
+    .filter((pt) => pt.actual !== null)
+    .map((pt) => `${x(pt.day)},${y(pt.actual!)}`)
+    .join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="h-16 w-full" role="img" aria-label={`${p.kpi.name} chart`}>
+      <line x1={0} y1={y(0)} x2={CHART_W} y2={y(p.kpi.target)} stroke="#71717a" strokeDasharray="4 4" />
+      {actual && <polyline points={`${x(0)},${y(0)} ${actual}`} fill="none" stroke="#10b981" strokeWidth={2} />}
+    </svg>
+  );
+}
+
+/**
+ * The sprint's KPIs: daily actuals for a chosen day, each KPI's total against
+ * its target with a chart, and on/off-track status. Every change is reported
+ * as an updated plan.
+ */
+export default function KpiPanel({
+  plan,
+  days,
+  onChange,
+}: {
+  plan: Plan;
+  days: Day[];
+  onChange: (plan: Plan) => void;
+}) {
+  const progress = useMemo(() => kpiProgress(plan), [plan]);
+  const [day, setDay] = useState(() => Math.max(1, currentSprintDay(plan)));
+  const [draft, setDraft] = useState({ name: "", unit: "", target: "" });
+
+  function log(id: string, value: string) {
+    const n = value.trim() === "" ? null : Number(value);
+    if (n !== null && !Number.isFinite(n)) return;
+    onChange(setKpiActual(plan, id, day, n));
+  }
+
+  function add() {
+    const next = addKpi(plan, { ...draft, target: Number(draft.target) });
+    if (next === plan) return;
+    onChange(next);
+    setDraft({ name: "", unit: "", target: "" });
+  }
+
+  return (
+    <div className="no-print mt-6 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm font-semibold text-zinc-200">KPIs</div>
+        {progress.length > 0 && (
+          <label className="flex items-center gap-2 text-sm text-zinc-400">
+            Log actuals for
+            <select className={inputCls} value={day} onChange={(e) => setDay(Number(e.target.value))}>
+              {days.map((d) => (
+                <option key={d.day} value={d.day}>
+                  Day {d.day} — {d.dateLabel}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {!progress.length && (
+        <div className="mt-2 text-sm text-zinc-500">This plan has no KPIs yet. Add up to {MAX_KPIS} below.</div>
+      )}
+
+      <div className="mt-3 grid gap-3 md:grid-cols-2">
+        {progress.map((p) => (
+          <div key={p.kpi.id} className="rounded-xl border border-zinc-800 bg-zinc-950/40 p-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <div className="text-sm font-semibold text-zinc-100">{p.kpi.name}</div>
+                <div className="mt-0.5 text-xs text-zinc-400">
+                  {formatKpi(p.total, p.kpi.unit)} of {formatKpi(p.kpi.target, p.kpi.unit)} ({p.percent}%)
+                </div>
+              </div>
+              <span className={`shrink-0 rounded-md border px-2 py-0.5 text-[11px] ${STATUS_CLS[p.status]}`}>
+                {KPI_STATUS_LABELS[p.status]}
+              </span>
+            </div>
+
+            <KpiChart p={p} />
+
+            <div className="flex items-center gap-2 text-xs text-zinc-400">
+              <span>Day {day}</span>
+              <input
+                key={`${p.kpi.id}:${day}`}
+                type="number"
+                min={0}
+                className={`${inputCls} w-28`}
+                defaultValue={p.kpi.actuals[day] ?? ""}
+                placeholder="0"
+                onBlur={(e) => log(p.kpi.id, e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+              />
+              <span className="flex-1">{p.kpi.unit}</span>
+              <button onClick={() => onChange(removeKpi(plan, p.kpi.id))} className={smallBtn} title="Remove KPI">
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {progress.length < MAX_KPIS && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <input
+            className={inputCls}
+            placeholder="KPI, e.g. Booked calls"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+          <input
+            type="number"
+            min={0}
+            className={`${inputCls} w-28`}
+            placeholder="Target"
+            value={draft.target}
+            onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+          />
+          <input
+            className={`${inputCls} w-28`}
+            placeholder="Unit"
+            value={draft.unit}
+            onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+          />
+          <button onClick={add} disabled={!draft.name.trim() || !(Number(draft.target) > 0)} className={smallBtn}>
+            + Add KPI
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
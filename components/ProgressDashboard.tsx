@@ -0,0 +1,140 @@
+import React from "react";
+import { progressPercent, type Progress } from "@/lib/progress";
+
+const CHART_W = 600;
+const CHART_H = 160;
+const PAD = 24;
+
+function Stat({ label, value, warn }: { label: string; value: string; warn?: boolean }) {
+  return (
+    <div className="rounded-xl border border-zinc-800 bg-zinc-950/40 p-3">
+      <div className="text-xs uppercase tracking-wide text-zinc-500">{label}</div>
+      <div className={`mt-1 text-xl font-bold ${warn ? "text-amber-300" : "text-zinc-100"}`}>{value}</div>
+    </div>
+  );
+}
+
+function Bar({ done, total }: { done: number; total: number }) {
+  return (
+    <div className="h-2 w-full overflow-hidden rounded-full bg-zinc-800">
+      <div className="h-full bg-emerald-500" style={{ width: `${progressPercent(done, total)}%` }} />
+    </div>
+  );
+}
+
+/** Planned vs actual tasks remaining, with completions per day as bars underneath. */
+function Burndown({ progress }: { progress: Progress }) {
+  const points = progress.burndown;
+  if (!points.length || !progress.total) return null;
+
+  // Position 0 is the start of day 1; position i is the end of day i.
+  const x = (i: number) => PAD + (i / points.length) * (CHART_W - PAD * 2);
+  const y = (left: number) => PAD + (1 - left / progress.total) * (CHART_H - PAD * 2);
+  const line = (values: (number | null)[]) =>
+    values
+      .map((v, i) => (v === null ? null : `${x(i + 1)},${y(v)}`))
+      .filter(Boolean)
+      .join(" ");
+
+  const maxPerDay = Math.max(1, ...progress.days.map((d) => d.completedOn));
+  const barW = Math.max(1, (CHART_W - PAD * 2) / points.length - 2);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H + 50}`} className="mt-2 w-full" role="img" aria-label="Burndown chart">
+      <line x1={PAD} y1={CHART_H - PAD} x2={CHART_W - PAD} y2={CHART_H - PAD} stroke="#3f3f46" />
+      <polyline
+        points={`${x(0)},${y(progress.total)} ${line(points.map((p) => p.planned))}`}
+        fill="none"
+        stroke="#71717a"
+        strokeDasharray="4 4"
+      />
+      <polyline
+        points={`${x(0)},${y(progress.total)} ${line(points.map((p) => p.actual))}`}
+        fill="none"
+        stroke="#10b981"
+        strokeWidth={2}
+      />
+      <text x={PAD} y={14} fill="#a1a1aa" fontSize={11}>
+        Tasks left (dashed: on schedule)
+      </text>
+
+      {progress.days.map((d, i) => {
+        const h = (d.completedOn / maxPerDay) * 36;
+        return (
+          <rect
+            key={d.day}
+            x={x(i) + 1}
+            y={CHART_H + 44 - h}
+            width={barW}
+            height={h}
+            fill="#10b981"
+            opacity={0.6}
+          >
+            <title>{`Day ${d.day} (${d.dateLabel}): ${d.completedOn} checked`}</title>
+          </rect>
+        );
+      })}
+      <text x={PAD} y={CHART_H + 4} fill="#a1a1aa" fontSize={11}>
+        Tasks checked per day
+      </text>
+    </svg>
+  );
+}
+
+export default function ProgressDashboard({ progress }: { progress: Progress }) {
+  return (
+    <div className="no-print mt-6 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4">
+      <div className="text-sm font-semibold text-zinc-200">Progress</div>
+
+      <div className="mt-3 grid grid-cols-2 gap-2 md:grid-cols-4">
+        <Stat label="Complete" value={`${progress.percent}%`} />
+        <Stat label="Tasks" value={`${progress.done} / ${progress.total}`} />
+        <Stat label="Overdue days" value={String(progress.overdue)} warn={progress.overdue > 0} />
+        <Stat label="Streak" value={`${progress.streak} (best ${progress.bestStreak})`} />
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {progress.steps.map((s) => (
+          <div key={s.index} className="text-sm">
+            <div className="flex justify-between gap-3 text-zinc-300">
+              <span className="truncate">
+                Step {s.index + 1}: {s.title}
+              </span>
+              <span className="shrink-0 text-zinc-500">
+                {s.done}/{s.total}
+              </span>
+            </div>
+            <div className="mt-1">
+              <Bar done={s.done} total={s.total} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-1">
+        {progress.days.map((d) => {
+          const full = d.total > 0 && d.done === d.total;
+          return (
+            <div
+              key={d.day}
+              title={`Day ${d.day} (${d.dateLabel}): ${d.done}/${d.total}${d.overdue ? ", overdue" : ""}`}
+              className={`flex h-7 w-7 items-center justify-center rounded-md border text-[10px] ${
+                full
+                  ? "border-emerald-700 bg-emerald-600/60 text-white"
+                  : d.overdue
+                    ? "border-amber-700 bg-amber-950/40 text-amber-200"
+                    : d.done
+                      ? "border-emerald-900 bg-emerald-950/40 text-emerald-200"
+                      : "border-zinc-800 bg-zinc-950/40 text-zinc-500"
+              }`}
+            >
+              {d.day}
+            </div>
+          );
+        })}
+      </div>
+
+      <Burndown progress={progress} />
+    </div>
+  );
+}
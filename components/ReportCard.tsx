@@ -0,0 +1,105 @@
+import React from "react";
+import { VERDICT_LABELS } from "@/lib/export";
+import type { ValidationReport } from "@/lib/plan";
+
+/**
+ * The "validate first" report: verdict, ideal customer, competitors, pricing
+ * check and the assumptions to test. `actions` renders on screen only.
+ */
+export default function ReportCard({
+  report: r,
+  pricePoint,
+  actions,
+}: {
+  report: ValidationReport;
+  pricePoint: string;
+  actions?: React.ReactNode;
+}) {
+  const go = r.verdict.decision === "go";
+
+  return (
+    <div className="print-card rounded-2xl border border-zinc-800 bg-zinc-900/30 p-5">
+      <div className="text-xs font-semibold text-emerald-300 no-print">VALIDATE FIRST</div>
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="text-lg font-extrabold">Validation report</div>
+        <span
+          className={`rounded-full border px-3 py-0.5 text-xs font-semibold uppercase tracking-wide ${
+            go
+              ? "border-emerald-900/60 bg-emerald-950/40 text-emerald-300"
+              : "border-red-900/60 bg-red-950/40 text-red-300"
+          }`}
+        >
+          {VERDICT_LABELS[r.verdict.decision]}
+        </span>
+      </div>
+      {r.verdict.reason ? <div className="print-muted mt-2 text-sm text-zinc-300">{r.verdict.reason}</div> : null}
+
+      <div className="mt-4 grid gap-3 md:grid-cols-2">
+        <Block title="Ideal customer profile">
+          {r.icp.summary ? <div>{r.icp.summary}</div> : null}
+          <Bullets items={r.icp.traits} />
+          {r.icp.whereToFind.length ? (
+            <div className="mt-2 text-zinc-400">Where to find them: {r.icp.whereToFind.join("; ")}</div>
+          ) : null}
+        </Block>
+
+        <Block title="Competitors and alternatives">
+          <ul className="space-y-2">
+            {r.competitors.map((c, i) => (
+              <li key={i} className="leading-relaxed">
+                • <span className="font-semibold text-zinc-200">{c.name}</span>{" "}
+                <span className="text-xs text-zinc-500">({c.kind})</span>
+                {c.note ? ` — ${c.note}` : ""}
+              </li>
+            ))}
+          </ul>
+        </Block>
+
+        <Block title="Pricing sanity check">
+          <div>
+            <span className="text-zinc-400">Price point:</span> {pricePoint || "Not set"}
+            <span className="text-zinc-400"> · Assessment:</span> {r.pricing.assessment}
+          </div>
+          {r.pricing.summary ? <div className="mt-2">{r.pricing.summary}</div> : null}
+          <Bullets items={r.pricing.benchmarks} />
+        </Block>
+
+        <Block title="Key assumptions">
+          <ul className="space-y-3">
+            {r.assumptions.map((a, i) => (
+              <li key={i} className="leading-relaxed">
+                <div className="font-semibold text-zinc-200">{a.assumption}</div>
+                {a.test ? <div>Test: {a.test}</div> : null}
+                {a.passIf ? <div className="text-zinc-400">Pass if: {a.passIf}</div> : null}
+              </li>
+            ))}
+          </ul>
+        </Block>
+      </div>
+
+      {actions ? <div className="no-print mt-4">{actions}</div> : null}
+    </div>
+  );
+}
+
+function Block({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-xl border border-zinc-800 bg-black/20 p-4 print-card">
+      <div className="text-sm font-semibold text-zinc-200">{title}</div>
+      <div className="print-muted mt-2 text-sm text-zinc-300">{children}</div>
+    </div>
+  );
+}
+
+function Bullets({ items }: { items: string[] }) {
+  if (!items.length) return null;
+  return (
+    <ul className="mt-2 space-y-1">
+      {items.map((b, i) => (
+        <li key={i} className="leading-relaxed">
+          • {b}
+        </li>
+      ))}
+    </ul>
+  );
+}
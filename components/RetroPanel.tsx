@@ -0,0 +1,101 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { formatKpi } from "@/lib/kpi";
+import { RETRO_MAX_NOTES, type Checks, type Plan } from "@/lib/plan";
+import { buildRetro } from "@/lib/retro";
+
+/**
+ * End-of-sprint review: what got done and skipped and the KPI results, read
+ * from the calendar, plus notes on what worked. Submitting asks for the next
+ * sprint's plan.
+ */
+export default function RetroPanel({
+  plan,
+  checks,
+  busy,
+  error,
+  onSubmit,
+  onClose,
+}: {
+  plan: Plan;
+  checks: Checks;
+  busy: boolean;
+  error: string;
+  onSubmit: (notes: string) => void;
+  onClose: () => void;
+}) {
+  const [notes, setNotes] = useState(plan.retro?.notes ?? "");
+  const summary = useMemo(() => buildRetro(plan, checks, ""), [plan, checks]);
+
+  return (
+    <div className="no-print mt-6 rounded-2xl border border-emerald-900/60 bg-zinc-900/30 p-4">
+      <div className="text-sm font-semibold text-zinc-200">Sprint retrospective</div>
+      <div className="mt-1 text-xs text-zinc-500">
+        This review and the current plan are used to write the next sprint. The new plan links back to this one.
+      </div>
+
+      <div className="mt-3 grid gap-3 md:grid-cols-2">
+        <details className="rounded-xl border border-zinc-800 bg-zinc-950/40 p-3 text-sm">
+          <summary className="cursor-pointer text-zinc-200">Done: {summary.done.length} tasks</summary>
+          <ul className="mt-2 list-disc space-y-1 pl-5 text-zinc-400">
+            {summary.done.map((t, i) => (
+              <li key={i}>{t}</li>
+            ))}
+          </ul>
+        </details>
+        <details className="rounded-xl border border-zinc-800 bg-zinc-950/40 p-3 text-sm">
+          <summary className="cursor-pointer text-zinc-200">Skipped: {summary.skipped.length} tasks</summary>
+          <ul className="mt-2 list-disc space-y-1 pl-5 text-zinc-400">
+            {summary.skipped.map((t, i) => (
+              <li key={i}>{t}</li>
+            ))}
+          </ul>
+        </details>
+      </div>
+
+      {summary.kpis.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2 text-sm">
+          {summary.kpis.map((k) => (
+            <div key={k.name} className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2">
+              <span className="text-zinc-400">{k.name}:</span> {formatKpi(k.actual, k.unit)} of{" "}
+              {formatKpi(k.target, k.unit)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <label className="mt-3 block text-sm text-zinc-400">
+        What worked, what didn’t, what you learned
+        <textarea
+          className="mt-1 min-h-[100px] w-full rounded-xl border border-zinc-800 bg-zinc-950/60 px-3 py-2 text-sm text-zinc-100 outline-none focus:border-emerald-500/60"
+          maxLength={RETRO_MAX_NOTES}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="e.g. Cold email got 4 replies, Reels got none. Customers kept asking about weekend slots."
+        />
+      </label>
+
+      {error ? (
+        <div className="mt-3 rounded-xl border border-red-900/50 bg-red-950/30 p-3 text-sm text-red-200">{error}</div>
+      ) : null}
+
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={() => onSubmit(notes)}
+          disabled={busy}
+          className="rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-black hover:brightness-105 disabled:opacity-50"
+        >
+          {busy ? "Planning next sprint..." : "Plan next sprint"}
+        </button>
+        <button
+          onClick={onClose}
+          disabled={busy}
+          className="rounded-xl border border-zinc-800 bg-zinc-900/40 px-4 py-2 text-sm font-semibold hover:bg-zinc-900 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
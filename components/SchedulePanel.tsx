@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Schedule } from "@/lib/plan";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const inputCls =
+  "rounded-lg border border-zinc-800 bg-zinc-950/60 px-3 py-1.5 text-sm outline-none focus:border-emerald-500/60";
+
+/** Start date and days off for the sprint. Every change is reported straight away. */
+export default function SchedulePanel({
+  schedule,
+  onChange,
+}: {
+  schedule: Schedule;
+  onChange: (schedule: Schedule) => void;
+}) {
+  const [dayOff, setDayOff] = useState("");
+
+  function toggleWeekday(n: number) {
+    const skip = schedule.skipWeekdays.includes(n)
+      ? schedule.skipWeekdays.filter((x) => x !== n)
+      : [...schedule.skipWeekdays, n].sort((a, b) => a - b);
+    onChange({ ...schedule, skipWeekdays: skip });
+  }
+
+  function addDayOff() {
+    if (!dayOff || schedule.skipDates.includes(dayOff)) return;
+    onChange({ ...schedule, skipDates: [...schedule.skipDates, dayOff].sort() });
+    setDayOff("");
+  }
+
+  return (
+    <div className="no-print mt-6 rounded-2xl border border-zinc-800 bg-zinc-900/30 p-4">
+      <div className="text-sm font-semibold text-zinc-200">Schedule</div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
+        <label className="text-zinc-400">Day 1 starts</label>
+        <input
+          type="date"
+          className={inputCls}
+          value={schedule.startDate}
+          onChange={(e) => e.target.value && onChange({ ...schedule, startDate: e.target.value })}
+        />
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-zinc-400">Days off</span>
+        {WEEKDAYS.map((w, n) => {
+          const off = schedule.skipWeekdays.includes(n);
+          return (
+            <button
+              key={w}
+              onClick={() => toggleWeekday(n)}
+              className={`rounded-lg border px-2 py-1 text-xs font-semibold ${
+                off
+                  ? "border-amber-800 bg-amber-950/40 text-amber-200"
+                  : "border-zinc-800 bg-zinc-950/40 text-zinc-300 hover:border-zinc-700"
+              }`}
+            >
+              {w}
+            </button>
+          );
+        })}
+        <button
+          onClick={() => onChange({ ...schedule, skipWeekdays: [0, 6] })}
+          className="text-xs text-emerald-300 underline"
+        >
+          Skip weekends
+        </button>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-zinc-400">Skip dates</span>
+        <input type="date" className={inputCls} value={dayOff} onChange={(e) => setDayOff(e.target.value)} />
+        <button
+          onClick={addDayOff}
+          disabled={!dayOff}
+          className="rounded-lg border border-zinc-800 bg-zinc-950/40 px-2 py-1 text-xs font-semibold hover:border-zinc-700 disabled:opacity-40"
+        >
+          Add
+        </button>
+        {schedule.skipDates.map((d) => (
+          <span
+            key={d}
+            className="inline-flex items-center gap-1 rounded-full border border-zinc-800 px-2 py-0.5 text-xs text-zinc-300"
+          >
+            {d}
+            <button
+              onClick={() => onChange({ ...schedule, skipDates: schedule.skipDates.filter((x) => x !== d) })}
+              className="text-zinc-500 hover:text-zinc-200"
+              title="Remove"
+            >
+              ✕
+            </button>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import React from "react";
+import type { PlanStep } from "@/lib/plan";
+
+/** Small badge for content that was changed by hand. */
+export function ModifiedBadge() {
+  return (
+    <span className="no-print ml-2 rounded-full border border-sky-900/60 bg-sky-950/40 px-2 py-0.5 align-middle text-[10px] font-semibold uppercase tracking-wide text-sky-300">
+      modified
+    </span>
+  );
+}
+
+/**
+ * One plan step. `actions` renders below the step on screen only; `edited`
+ * lists the fields changed by hand so they get a modified badge.
+ */
+export default function StepCard({
+  step: s,
+  index: idx,
+  actions,
+  edited = [],
+}: {
+  step: PlanStep;
+  index: number;
+  actions?: React.ReactNode;
+  edited?: (keyof PlanStep)[];
+}) {
+  return (
+    <div className="print-card rounded-2xl border border-zinc-800 bg-zinc-900/30 p-5">
+      <div className="text-xs font-semibold text-emerald-300 no-print">
+        STEP {idx + 1}
+      </div>
+      <div className="text-lg font-extrabold">
+        Step {idx + 1}: {s.title}
+        {edited.includes("title") ? <ModifiedBadge /> : null}
+      </div>
+
+      {s.summary ? (
+        <div className="print-muted mt-2 text-sm text-zinc-300">
+          {s.summary}
+          {edited.includes("summary") ? <ModifiedBadge /> : null}
+        </div>
+      ) : null}
+
+      <div className="mt-4 grid gap-3">
+        <Section
+          title="What this step does"
+          bullets={s.whatThisDoes}
+          modified={edited.includes("whatThisDoes")}
+        />
+        <Section
+          title="How to do it (checklist)"
+          bullets={s.howTo}
+          checkboxStyle
+          modified={edited.includes("howTo")}
+        />
+        {s.output ? (
+          <div className="rounded-xl border border-zinc-800 bg-black/20 p-4 print-card">
+            <div className="text-sm font-semibold text-zinc-200">
+              Output
+              {edited.includes("output") ? <ModifiedBadge /> : null}
+            </div>
+            <div className="print-muted mt-2 text-sm text-zinc-300">
+              {s.output}
+            </div>
+          </div>
+        ) : null}
+      </div>
+
+      {actions ? <div className="no-print mt-4">{actions}</div> : null}
+    </div>
+  );
+}
+
+function Section({
+  title,
+  bullets,
+  checkboxStyle,
+  modified,
+}: {
+  title: string;
+  bullets: string[];
+  checkboxStyle?: boolean;
+  modified?: boolean;
+}) {
+  const items = (bullets || []).filter(Boolean);
+
+  return (
+    <div className="rounded-xl border border-zinc-800 bg-black/20 p-4 print-card">
+      <div className="text-sm font-semibold text-zinc-200">
+        {title}
+        {modified ? <ModifiedBadge /> : null}
+      </div>
+
+      {items.length ? (
+        <ul className="print-muted mt-2 space-y-2 text-sm text-zinc-300">
+          {items.map((b, i) => (
+            <li key={i} className="leading-relaxed">
+              {checkboxStyle ? `□ ${b}` : `• ${b}`}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="print-muted mt-2 text-sm text-zinc-500">
+          No details returned for this section.
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
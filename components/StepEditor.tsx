@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useState } from "react";
+import type { PlanStep } from "@/lib/plan";
+
+const inputCls =
+  "w-full rounded-lg border border-zinc-800 bg-zinc-950/60 px-3 py-2 text-sm outline-none focus:border-emerald-500/60";
+const smallBtn =
+  "rounded-lg border border-zinc-800 bg-zinc-950/40 px-2 py-1 text-xs font-semibold hover:border-zinc-700 disabled:opacity-40";
+
+/** Inline editor for one step. Works on a draft and hands it back on save. */
+export default function StepEditor({
+  step,
+  index,
+  onSave,
+  onCancel,
+}: {
+  step: PlanStep;
+  index: number;
+  onSave: (step: PlanStep) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<PlanStep>(step);
+
+  function set<K extends keyof PlanStep>(field: K, value: PlanStep[K]) {
+    setDraft((d) => ({ ...d, [field]: value }));
+  }
+
+  return (
+    <div className="rounded-2xl border border-emerald-900/60 bg-zinc-900/30 p-5">
+      <div className="text-xs font-semibold text-emerald-300">EDITING STEP {index + 1}</div>
+
+      <label className="mt-3 block text-sm font-medium text-zinc-200">Title</label>
+      <input
+        className={`mt-1 ${inputCls}`}
+        value={draft.title}
+        onChange={(e) => set("title", e.target.value)}
+      />
+
+      <label className="mt-3 block text-sm font-medium text-zinc-200">Summary</label>
+      <textarea
+        className={`mt-1 ${inputCls}`}
+        rows={2}
+        value={draft.summary}
+        onChange={(e) => set("summary", e.target.value)}
+      />
+
+      <EditableList
+        title="What this step does"
+        items={draft.whatThisDoes}
+        onChange={(v) => set("whatThisDoes", v)}
+      />
+      <EditableList
+        title="How to do it (checklist)"
+        items={draft.howTo}
+        onChange={(v) => set("howTo", v)}
+      />
+
+      <label className="mt-3 block text-sm font-medium text-zinc-200">Output</label>
+      <input
+        className={`mt-1 ${inputCls}`}
+        value={draft.output}
+        onChange={(e) => set("output", e.target.value)}
+      />
+
+      <div className="mt-4 flex gap-2">
+        <button
+          onClick={() => onSave(draft)}
+          className="rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-black"
+        >
+          Save step
+        </button>
+        <button
+          onClick={onCancel}
+          className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-4 py-2 text-sm font-semibold hover:border-zinc-700"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Bullet list with add, edit, delete and move up/down. */
+export function EditableList({
+  title,
+  items,
+  onChange,
+}: {
+  title: string;
+  items: string[];
+  onChange: (items: string[]) => void;
+}) {
+  function update(i: number, value: string) {
+    onChange(items.map((b, j) => (j === i ? value : b)));
+  }
+
+  function remove(i: number) {
+    onChange(items.filter((_, j) => j !== i));
+  }
+
+  function move(i: number, delta: number) {
+    const j = i + delta;
+    if (j < 0 || j >= items.length) return;
+    const next = [...items];
+    [next[i], next[j]] = [next[j], next[i]];
+    onChange(next);
+  }
+
+  return (
+    <div className="mt-3 rounded-xl border border-zinc-800 bg-black/20 p-3">
+      <div className="text-sm font-semibold text-zinc-200">{title}</div>
+      <div className="mt-2 space-y-2">
+        {items.map((b, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input className={inputCls} value={b} onChange={(e) => update(i, e.target.value)} />
+            <button onClick={() => move(i, -1)} disabled={i === 0} className={smallBtn} title="Move up">
+              ↑
+            </button>
+            <button
+              onClick={() => move(i, 1)}
+              disabled={i === items.length - 1}
+              className={smallBtn}
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button onClick={() => remove(i)} className={smallBtn} title="Delete">
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <button onClick={() => onChange([...items, ""])} className={`mt-2 ${smallBtn}`}>
+        + Add bullet
+      </button>
+    </div>
+  );
+}
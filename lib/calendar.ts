@@ -0,0 +1,162 @@
+// Turns a plan into dated calendar days for the calendar page and shared views.
+
+import { legacyTaskId, placeholderTaskId, planShape, type Plan, type PlanShape, type Schedule } from "@/lib/plan";
+import { getTemplate } from "@/lib/templates";
+
+export type Day = {
+  day: number;
+  date: string;           // YYYY-MM-DD
+  dateLabel: string;
+  focus: string;
+  tasks: string[];
+  taskIds: string[];      // same order as tasks; checks are keyed by these
+};
+
+/**
+ * Days per step when the model did not say which step a day belongs to. Days
+ * are shared evenly and the remainder goes to the middle steps, where the
+ * acquisition work happens (3 steps over 14 days is 4/6/4).
+ */
+export function stepDaySplit(shape: PlanShape): number[] {
+  const base = Math.floor(shape.days / shape.steps);
+  const split = Array.from({ length: shape.steps }, () => base);
+  const middle = shape.steps > 2 ? shape.steps - 2 : shape.steps;
+  const offset = shape.steps > 2 ? 1 : 0;
+  for (let r = 0; r < shape.days - base * shape.steps; r++) split[offset + (r % middle)]++;
+  return split;
+}
+
+/** Day numbers (1-based) of the calendar days that work on step `index`. */
+export function linkedDays(plan: Plan, index: number): number[] {
+  const days = plan.calendarDays ?? [];
+  if (days.some((d) => d.step)) {
+    return days.filter((d) => d.step === index + 1).map((d) => d.day);
+  }
+  const split = stepDaySplit(planShape(plan));
+  const start = split.slice(0, index).reduce((a, b) => a + b, 0);
+  const count = split[index] ?? 0;
+  return Array.from({ length: count }, (_, i) => start + i + 1);
+}
+
+function formatDate(d: Date) {
+  return d.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+}
+
+export function toIsoDate(d: Date) {
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${m}-${day}`;
+}
+
+/** Parses YYYY-MM-DD as a local calendar date. */
+export function fromIsoDate(s: string) {
+  const [y, m, d] = s.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/**
+ * Plans without a stored schedule start on the day they were generated, so
+ * the labels stay put between visits.
+ */
+export function defaultSchedule(plan: Plan | null): Schedule {
+  const created = plan?.createdAt ? new Date(plan.createdAt) : new Date();
+  return {
+    startDate: toIsoDate(Number.isNaN(created.getTime()) ? new Date() : created),
+    skipWeekdays: [],
+    skipDates: [],
+  };
+}
+
+/** The working dates for `count` sprint days under a schedule. */
+export function scheduleDates(schedule: Schedule, count: number): Date[] {
+  const skipDates = new Set(schedule.skipDates);
+  // Skipping every weekday would never finish; ignore the rule in that case.
+  const skipWeekdays = new Set(schedule.skipWeekdays.length >= 7 ? [] : schedule.skipWeekdays);
+
+  const out: Date[] = [];
+  const d = fromIsoDate(schedule.startDate);
+  for (let guard = 0; out.length < count && guard < count * 10 + 366; guard++) {
+    if (!skipWeekdays.has(d.getDay()) && !skipDates.has(toIsoDate(d))) out.push(new Date(d));
+    d.setDate(d.getDate() + 1);
+  }
+  return out;
+}
+
+function planDates(plan: Plan | null, count: number): Date[] {
+  return scheduleDates(plan?.schedule ?? defaultSchedule(plan), count);
+}
+
+function dated(d: Date | undefined) {
+  const date = d ?? new Date();
+  return { date: toIsoDate(date), dateLabel: formatDate(date) };
+}
+
+function chunkEvenly(items: string[], buckets: number): string[][] {
+  const out: string[][] = Array.from({ length: buckets }, () => []);
+  if (!items.length) return out;
+  for (let i = 0; i < items.length; i++) out[i % buckets].push(items[i]);
+  return out;
+}
+
+export function buildDays(plan: Plan | null): Day[] {
+  const shape = planShape(plan);
+  const dates = planDates(plan, shape.days);
+  const split = stepDaySplit(shape);
+
+  const steps = plan?.steps ?? [];
+
+  const { positioning, acquisition, retention } = getTemplate(plan?.template).fallbackTasks;
+  const defaultTitles = ["Positioning", "Acquisition Sprint", "Retention & Proof"];
+
+  // The first step positions, the last one retains, everything between acquires.
+  const phase = (i: number) => (i === 0 ? 0 : i === shape.steps - 1 ? 2 : 1);
+
+  const block = split.map((count, i) => {
+    const step = steps[i];
+    const bullets = [...(step?.howTo ?? []), ...(step?.whatThisDoes ?? [])];
+    return {
+      title: step?.title?.trim() || `Step ${i + 1}: ${defaultTitles[phase(i)]}`,
+      days: count,
+      bullets: bullets.length ? bullets : [positioning, acquisition, retention][phase(i)],
+    };
+  });
+
+  const days: Day[] = [];
+  let n = 1;
+
+  for (const b of block) {
+    const buckets = chunkEvenly(b.bullets, b.days);
+    for (let i = 0; i < b.days; i++) {
+      const tasks = buckets[i].length ? buckets[i] : ["Execute the next best action from this step."];
+      days.push({
+        day: n,
+        ...dated(dates[n - 1]),
+        focus: b.title,
+        tasks,
+        taskIds: tasks.map((_, t) => legacyTaskId(n, t)),
+      });
+      n++;
+    }
+  }
+
+  return days.slice(0, shape.days);
+}
+
+// Prefer the model's calendarDays; older saved plans without them fall back to buildDays.
+export function planDays(plan: Plan | null): Day[] {
+  const generated = plan?.calendarDays;
+  if (!generated?.length) return buildDays(plan);
+
+  const dates = planDates(plan, generated.length);
+
+  return generated.map((g, i) => {
+    const empty = !g.tasks.length;
+    return {
+      day: i + 1,
+      ...dated(dates[i]),
+      focus: g.title,
+      tasks: empty ? ["Execute the next best action from this step."] : g.tasks,
+      taskIds: empty ? [placeholderTaskId(i + 1)] : g.taskIds,
+    };
+  });
+}
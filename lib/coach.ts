@@ -0,0 +1,47 @@
+// Plan coach: a chat grounded in the current plan, one sprint day's tasks and
+// the checkbox progress. History is kept per plan in the browser.
+
+import { linkedDays, planDays } from "@/lib/calendar";
+import { safeStr, type Plan } from "@/lib/plan";
+
+// Longest question the coach accepts.
+export const COACH_MAX_MESSAGE = 2000;
+// Turns of history sent with each question; older ones stay saved but unsent.
+export const COACH_HISTORY_TURNS = 12;
+// Messages kept in storage per plan.
+export const COACH_MAX_SAVED = 100;
+
+export type CoachMessage = {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+};
+
+/** Reads saved or posted history, dropping anything that is not a filled user/coach turn. */
+export function coerceCoachMessages(raw: unknown): CoachMessage[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .flatMap((m): CoachMessage[] => {
+      const o = m && typeof m === "object" ? (m as Record<string, unknown>) : {};
+      const content = safeStr(o.content);
+      if (!content || (o.role !== "user" && o.role !== "assistant")) return [];
+      return [{ role: o.role, content, createdAt: safeStr(o.createdAt) || new Date().toISOString() }];
+    })
+    .slice(-COACH_MAX_SAVED);
+}
+
+/** Index of the step a sprint day works on, or -1. */
+export function stepForDay(plan: Plan, day: number) {
+  return plan.steps.findIndex((_, i) => linkedDays(plan, i).includes(day));
+}
+
+/** Starter questions for a day: unpack its first task, and draft the step's deliverable. */
+export function coachSuggestions(plan: Plan, day: number): string[] {
+  const d = planDays(plan)[day - 1];
+  const out: string[] = [];
+  if (d?.tasks[0]) out.push(`What exactly should I do for “${d.tasks[0]}”?`);
+  const step = plan.steps[stepForDay(plan, day)] ?? plan.steps[0];
+  if (step?.output) out.push(`Draft this for me: ${step.output}`);
+  out.push("What should I focus on today given my progress?");
+  return out;
+}
@@ -0,0 +1,105 @@
+// Compare mode: plans for several ideas (or input variants) generated in one
+// batch, with a model-written scorecard to pick the one worth committing to.
+
+import { coercePlan, safeStr, type Inputs, type Plan } from "@/lib/plan";
+
+export const MIN_CANDIDATES = 2;
+export const MAX_CANDIDATES = 4;
+
+// One idea and its inputs, as entered on the compare page.
+export type Candidate = { idea: string; inputs: Inputs };
+
+export type ScorecardEntry = {
+  effort: number;            // 1–5, 5 = most work to execute
+  timeToRevenueDays: number; // days until the first paying customer
+  channelFit: number;        // 1–5, 5 = channels reach the customer best
+  risk: number;              // 1–5, 5 = riskiest
+  notes: string;             // one or two sentences on the trade-offs
+};
+
+export type Scorecard = {
+  entries: ScorecardEntry[]; // one per compared plan, in order
+  winner: number;            // index of the recommended plan
+  reason: string;
+};
+
+// What POST /api/compare returns per candidate: a plan or why it failed.
+export type CompareResult = { idea: string; plan?: Plan; error?: string };
+
+export type Comparison = {
+  results: CompareResult[];
+  // Indexed like the results that have a plan; missing when fewer than two came back.
+  scorecard?: Scorecard;
+  scorecardError?: string;
+  createdAt: string;
+};
+
+export const SCORE_CRITERIA: {
+  key: Exclude<keyof ScorecardEntry, "notes">;
+  label: string;
+  hint: string;
+  better: "low" | "high";
+}[] = [
+  { key: "effort", label: "Effort", hint: "1–5, lower is less work", better: "low" },
+  { key: "timeToRevenueDays", label: "Time to first revenue", hint: "days", better: "low" },
+  { key: "channelFit", label: "Channel fit", hint: "1–5, higher is better", better: "high" },
+  { key: "risk", label: "Risk", hint: "1–5, lower is safer", better: "low" },
+];
+
+type Raw = Record<string, unknown>;
+
+function asObj(v: unknown): Raw {
+  return v && typeof v === "object" ? (v as Raw) : {};
+}
+
+function clampScore(v: unknown) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? Math.min(5, Math.max(1, Math.round(n))) : 3;
+}
+
+/** Reads a scorecard for `count` plans; missing entries get middling scores. */
+export function coerceScorecard(raw: unknown, count: number): Scorecard {
+  const o = asObj(raw);
+  const rawEntries = Array.isArray(o.entries) ? o.entries : [];
+  const entries = Array.from({ length: count }, (_, i) => {
+    const e = asObj(rawEntries[i]);
+    const days = Number(e.timeToRevenueDays);
+    return {
+      effort: clampScore(e.effort),
+      timeToRevenueDays: Number.isFinite(days) && days >= 0 ? Math.round(days) : 0,
+      channelFit: clampScore(e.channelFit),
+      risk: clampScore(e.risk),
+      notes: safeStr(e.notes),
+    };
+  });
+  const winner = Number(o.winner);
+  return {
+    entries,
+    winner: Number.isInteger(winner) && winner >= 0 && winner < count ? winner : 0,
+    reason: safeStr(o.reason),
+  };
+}
+
+/** Reads a comparison from the compare API or from storage. */
+export function coerceComparison(raw: unknown): Comparison | null {
+  const o = asObj(raw);
+  if (!Array.isArray(o.results)) return null;
+  const results: CompareResult[] = o.results.map((r) => {
+    const ro = asObj(r);
+    const idea = safeStr(ro.idea);
+    if (ro.plan && typeof ro.plan === "object") return { idea, plan: coercePlan(ro.plan, idea, {}) };
+    return { idea, error: safeStr(ro.error) || "No plan came back for this idea." };
+  });
+  const planCount = results.filter((r) => r.plan).length;
+  const comparison: Comparison = { results, createdAt: safeStr(o.createdAt) || new Date().toISOString() };
+  if (o.scorecard && planCount >= MIN_CANDIDATES) comparison.scorecard = coerceScorecard(o.scorecard, planCount);
+  if (safeStr(o.scorecardError)) comparison.scorecardError = safeStr(o.scorecardError);
+  return comparison;
+}
+
+/** The index of the best value for a criterion, for highlighting; -1 on a tie for everyone. */
+export function bestIndex(scorecard: Scorecard, criterion: (typeof SCORE_CRITERIA)[number]): number {
+  const values = scorecard.entries.map((e) => e[criterion.key]);
+  const best = criterion.better === "low" ? Math.min(...values) : Math.max(...values);
+  return values.every((v) => v === best) ? -1 : values.indexOf(best);
+}
@@ -0,0 +1,42 @@
+// DOCX rendering of the shared export blocks. Runs in the browser, so the
+// document is built locally without a round trip to the server.
+
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from "docx";
+import type { ExportBlock } from "@/lib/export";
+
+const HEADINGS = {
+  1: HeadingLevel.HEADING_1,
+  2: HeadingLevel.HEADING_2,
+  3: HeadingLevel.HEADING_3,
+  4: HeadingLevel.HEADING_4,
+} as const;
+
+function paragraphs(b: ExportBlock): Paragraph[] {
+  switch (b.type) {
+    case "heading":
+      return [new Paragraph({ text: b.text, heading: HEADINGS[b.level] })];
+    case "paragraph":
+      return [new Paragraph({ text: b.text, spacing: { after: 120 } })];
+    case "fields":
+      return b.rows.map(
+        ([k, v]) => new Paragraph({ children: [new TextRun({ text: `${k}: `, bold: true }), new TextRun(v)] })
+      );
+    case "bullets":
+      return b.items.map((x) => new Paragraph({ text: x, bullet: { level: 0 } }));
+    case "tasks":
+      return b.items.map((t) => new Paragraph({ text: `${t.done ? "☒" : "☐"} ${t.text}`, indent: { left: 360 } }));
+    case "rule":
+      return [
+        new Paragraph({ text: "", border: { bottom: { style: "single", size: 6, color: "CCCCCC", space: 1 } } }),
+      ];
+  }
+}
+
+export async function toDocx(blocks: ExportBlock[], title: string): Promise<Blob> {
+  const doc = new Document({
+    title,
+    creator: "ProfitBot",
+    sections: [{ children: blocks.flatMap(paragraphs) }],
+  });
+  return Packer.toBlob(doc);
+}
@@ -0,0 +1,65 @@
+// Browser helpers for saving generated files.
+
+import { exportBlocks, exportFilename, toJsonExport, toMarkdown, type ExportKind } from "@/lib/export";
+import type { Checks, Plan } from "@/lib/plan";
+
+export type ExportFormat = "pdf" | "md" | "docx" | "json";
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function filenameFrom(resp: Response, fallback: string) {
+  const m = resp.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/);
+  return m?.[1] || fallback;
+}
+
+/** Asks the server to render the plan or calendar as a PDF and downloads it. */
+export async function downloadPdf(
+  plan: Plan,
+  kind: ExportKind,
+  checks: Checks = {}
+) {
+  const resp = await fetch("/api/export/pdf", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ plan, kind, checks }),
+  });
+  if (!resp.ok) {
+    const data = await resp.json().catch(() => null);
+    throw new Error(data?.error || `PDF export failed (${resp.status})`);
+  }
+  downloadBlob(await resp.blob(), filenameFrom(resp, `${kind}.pdf`));
+}
+
+/** Builds a Markdown, DOCX or JSON export in the browser and downloads it. */
+export async function downloadExport(
+  plan: Plan,
+  kind: ExportKind,
+  format: Exclude<ExportFormat, "pdf">,
+  checks: Checks = {}
+) {
+  const filename = exportFilename(plan, kind, format);
+  if (format === "json") {
+    const json = JSON.stringify(toJsonExport(plan, checks), null, 2);
+    downloadBlob(new Blob([json], { type: "application/json" }), filename);
+    return;
+  }
+
+  const blocks = exportBlocks(plan, kind, checks);
+  if (format === "md") {
+    downloadBlob(new Blob([toMarkdown(blocks)], { type: "text/markdown;charset=utf-8" }), filename);
+    return;
+  }
+
+  // docx is only needed when someone asks for a Word file.
+  const { toDocx } = await import("@/lib/docx");
+  downloadBlob(await toDocx(blocks, plan.name || plan.idea), filename);
+}
@@ -0,0 +1,321 @@
+// Shared export model. Plan and calendar exports are built once as a list of
+// blocks and then rendered to plain text, Markdown or DOCX, so every format
+// carries the same content. The JSON export is the full plan in a versioned
+// envelope that can be imported again.
+
+import { planDays } from "@/lib/calendar";
+import { formatKpi, KPI_STATUS_LABELS, kpiProgress } from "@/lib/kpi";
+import {
+  DRAFT_KIND_LABELS,
+  horizonLabel,
+  planShape,
+  type Checks,
+  type Plan,
+  type StepDraft,
+  type ValidationReport,
+} from "@/lib/plan";
+
+export type ExportKind = "plan" | "calendar";
+
+export type ExportBlock =
+  | { type: "heading"; level: 1 | 2 | 3 | 4; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "fields"; rows: [string, string][] }
+  | { type: "bullets"; items: string[] }
+  | { type: "tasks"; items: { text: string; done: boolean }[] }
+  | { type: "rule" };
+
+export const EXPORT_FORMAT = "profitbot-plan";
+export const EXPORT_VERSION = 1;
+
+/** What the JSON export contains. Bump EXPORT_VERSION when this changes shape. */
+export type PlanExport = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  plan: Plan;
+  checks: Checks;
+};
+
+export function inputRows(plan: Plan): [string, string][] {
+  const i = plan.inputs || {};
+  const rows: [string, string | undefined][] = [
+    ["Target customer", i.targetCustomer],
+    ["Core offer", i.coreOffer],
+    ["Differentiator", i.differentiator],
+    ["Price point", i.pricePoint],
+    ["Geography", i.geography],
+    [`${horizonLabel(planShape(plan).days)} goal`, i.goal],
+    ["Notes", i.notes],
+  ];
+  return rows.filter((r): r is [string, string] => !!r[1]);
+}
+
+/** "14-Day Calendar", "90-Day Calendar", following the plan's horizon. */
+export function calendarTitle(plan: Plan | null) {
+  return `${planShape(plan).days}-Day Calendar`;
+}
+
+/** Per KPI: target, actual so far with status, and the logged daily amounts. */
+export function kpiRows(plan: Plan): { name: string; rows: [string, string][] }[] {
+  return kpiProgress(plan).map((p) => {
+    const { unit, target, actuals } = p.kpi;
+    const rows: [string, string][] = [
+      ["Target", formatKpi(target, unit)],
+      ["Actual", `${formatKpi(p.total, unit)} (${p.percent}%, ${KPI_STATUS_LABELS[p.status]})`],
+    ];
+    const daily = Object.entries(actuals)
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([day, v]) => `Day ${day}: ${v}`);
+    if (daily.length) rows.push(["Daily actuals", daily.join(", ")]);
+    return { name: p.kpi.name, rows };
+  });
+}
+
+function kpiBlocks(plan: Plan): ExportBlock[] {
+  const kpis = kpiRows(plan);
+  if (!kpis.length) return [];
+  return [
+    { type: "heading", level: 2, text: "KPIs" },
+    ...kpis.flatMap((k): ExportBlock[] => [
+      { type: "heading", level: 3, text: k.name },
+      { type: "fields", rows: k.rows },
+    ]),
+  ];
+}
+
+export const VERDICT_LABELS: Record<ValidationReport["verdict"]["decision"], string> = {
+  go: "Go",
+  "no-go": "No-go",
+};
+
+export type ReportSection = { title: string; rows: [string, string][]; text: string; items: string[] };
+
+/** The "validate first" report as titled sections, shared by the exports and the PDF. */
+export function reportSections(plan: Plan): ReportSection[] {
+  const r = plan.validationReport;
+  if (!r) return [];
+  return [
+    {
+      title: "Verdict",
+      rows: [["Decision", VERDICT_LABELS[r.verdict.decision]]],
+      text: r.verdict.reason,
+      items: [],
+    },
+    {
+      title: "Ideal customer profile",
+      rows: [],
+      text: r.icp.summary,
+      items: [
+        ...r.icp.traits,
+        ...(r.icp.whereToFind.length ? [`Where to find them: ${r.icp.whereToFind.join("; ")}`] : []),
+      ],
+    },
+    {
+      title: "Competitors and alternatives",
+      rows: [],
+      text: "",
+      items: r.competitors.map((c) => `${c.name} (${c.kind}): ${c.note}`),
+    },
+    {
+      title: "Pricing sanity check",
+      rows: [
+        ["Price point", plan.inputs.pricePoint || "Not set"],
+        ["Assessment", r.pricing.assessment],
+      ],
+      text: r.pricing.summary,
+      items: r.pricing.benchmarks,
+    },
+    {
+      title: "Key assumptions",
+      rows: [],
+      text: "",
+      items: r.assumptions.map((a) => `${a.assumption} Test: ${a.test} Pass if: ${a.passIf}`),
+    },
+  ];
+}
+
+function reportBlocks(plan: Plan): ExportBlock[] {
+  const sections = reportSections(plan);
+  if (!sections.length) return [];
+  return [
+    { type: "heading", level: 2, text: "Validation report" },
+    ...sections.flatMap((s): ExportBlock[] => [
+      { type: "heading", level: 3, text: s.title },
+      ...(s.rows.length ? [{ type: "fields", rows: s.rows } as const] : []),
+      ...(s.text ? [{ type: "paragraph", text: s.text } as const] : []),
+      ...(s.items.length ? [{ type: "bullets", items: s.items } as const] : []),
+    ]),
+  ];
+}
+
+/** "Draft (Landing page): Dog walking landing page", shared by the exports and the PDF. */
+export function draftTitle(draft: StepDraft) {
+  return `Draft (${DRAFT_KIND_LABELS[draft.kind]}): ${draft.title}`;
+}
+
+// One paragraph per line of each section body, under the section heading.
+function draftBlocks(draft: StepDraft): ExportBlock[] {
+  return [
+    { type: "heading", level: 3, text: draftTitle(draft) },
+    ...draft.sections.flatMap((s): ExportBlock[] => [
+      ...(s.heading ? [{ type: "heading", level: 4, text: s.heading } as const] : []),
+      ...s.body
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((text) => ({ type: "paragraph", text }) as const),
+    ]),
+  ];
+}
+
+function stepBlocks(plan: Plan): ExportBlock[] {
+  const out: ExportBlock[] = [];
+  plan.steps.forEach((s, idx) => {
+    out.push({ type: "heading", level: 2, text: `Step ${idx + 1}: ${s.title}` });
+    if (s.summary) out.push({ type: "paragraph", text: s.summary });
+    if (s.whatThisDoes.length) {
+      out.push({ type: "heading", level: 3, text: "What this step does" });
+      out.push({ type: "bullets", items: s.whatThisDoes });
+    }
+    if (s.howTo.length) {
+      out.push({ type: "heading", level: 3, text: "How to do it (checklist)" });
+      out.push({ type: "tasks", items: s.howTo.map((text) => ({ text, done: false })) });
+    }
+    if (s.output) out.push({ type: "fields", rows: [["Output", s.output]] });
+    const draft = plan.drafts?.[idx];
+    if (draft) out.push(...draftBlocks(draft));
+    out.push({ type: "rule" });
+  });
+  return out;
+}
+
+function calendarBlocks(plan: Plan, checks: Checks): ExportBlock[] {
+  const out: ExportBlock[] = [{ type: "heading", level: 2, text: calendarTitle(plan) }];
+  for (const d of planDays(plan)) {
+    out.push({ type: "heading", level: 3, text: `Day ${d.day} — ${d.dateLabel}: ${d.focus}` });
+    out.push({
+      type: "tasks",
+      items: d.tasks.map((text, i) => ({ text, done: !!checks[d.taskIds[i]] })),
+    });
+  }
+  return out;
+}
+
+/** The plan (inputs, validation report, KPIs, steps, calendar) or the KPIs and calendar as export blocks. */
+export function exportBlocks(
+  plan: Plan,
+  kind: ExportKind,
+  checks: Checks = {}
+): ExportBlock[] {
+  const title = kind === "plan" ? "Business Plan" : `${planShape(plan).days}-Day Marketing Calendar`;
+  const out: ExportBlock[] = [
+    { type: "heading", level: 1, text: `${title}: ${plan.name || plan.idea}` },
+    {
+      type: "fields",
+      rows: [
+        ...(plan.name ? [["Idea", plan.idea] as [string, string]] : []),
+        // ISO rather than the browser's locale, so Markdown import reads it back anywhere.
+        ["Generated", plan.createdAt],
+      ],
+    },
+  ];
+
+  const inputs = inputRows(plan);
+  if (kind === "plan" && inputs.length) {
+    out.push({ type: "heading", level: 2, text: "Inputs" }, { type: "fields", rows: inputs });
+  }
+  // Before the steps, so a Markdown import does not read these rows as step bullets.
+  if (kind === "plan") out.push(...reportBlocks(plan));
+  out.push(...kpiBlocks(plan));
+  if (kind === "plan") out.push(...stepBlocks(plan));
+  out.push(...calendarBlocks(plan, checks));
+  return out;
+}
+
+/** Plain text for the clipboard. */
+export function toText(blocks: ExportBlock[]): string {
+  const lines: string[] = [];
+  for (const b of blocks) {
+    switch (b.type) {
+      case "heading":
+        lines.push(b.text);
+        if (b.level === 1) lines.push("");
+        break;
+      case "paragraph":
+        lines.push(b.text, "");
+        break;
+      case "fields":
+        b.rows.forEach(([k, v]) => lines.push(`${k}: ${v}`));
+        lines.push("");
+        break;
+      case "bullets":
+        b.items.forEach((x) => lines.push(`- ${x}`));
+        lines.push("");
+        break;
+      case "tasks":
+        b.items.forEach((t) => lines.push(`${t.done ? "[x]" : "[ ]"} ${t.text}`));
+        lines.push("");
+        break;
+      case "rule":
+        lines.push("--------------------------------------------------", "");
+        break;
+    }
+  }
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+// Keeps user text from turning into Markdown structure at the start of a line.
+function mdInline(s: string) {
+  return s.replace(/\r?\n/g, " ").replace(/^([#>*+-]|\d+\.)(\s)/, "\\$1$2");
+}
+
+export function toMarkdown(blocks: ExportBlock[]): string {
+  const lines: string[] = [];
+  for (const b of blocks) {
+    switch (b.type) {
+      case "heading":
+        lines.push(`${"#".repeat(b.level)} ${mdInline(b.text)}`, "");
+        break;
+      case "paragraph":
+        lines.push(mdInline(b.text), "");
+        break;
+      case "fields":
+        b.rows.forEach(([k, v]) => lines.push(`- **${k}:** ${mdInline(v)}`));
+        lines.push("");
+        break;
+      case "bullets":
+        b.items.forEach((x) => lines.push(`- ${mdInline(x)}`));
+        lines.push("");
+        break;
+      case "tasks":
+        b.items.forEach((t) => lines.push(`- [${t.done ? "x" : " "}] ${mdInline(t.text)}`));
+        lines.push("");
+        break;
+      case "rule":
+        lines.push("---", "");
+        break;
+    }
+  }
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+export function toJsonExport(plan: Plan, checks: Checks = {}): PlanExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    plan,
+    checks,
+  };
+}
+
+/** File name for an export, e.g. `dog-walking-app-plan.md`. */
+export function exportFilename(plan: Plan, kind: ExportKind, ext: string) {
+  const slug = (plan.name || plan.idea)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60);
+  return `${slug || "plan"}-${kind}.${ext}`;
+}
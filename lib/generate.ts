@@ -0,0 +1,153 @@
+import { ModelOutputError, type ChatMessage, type CompletionRequest, type LLMProvider } from "@/lib/llm";
+import {
+  coercePlan,
+  DEFAULT_SHAPE,
+  HORIZONS,
+  padCalendarDays,
+  STEP_COUNTS,
+  uid,
+  withNewTaskIds,
+  type Inputs,
+  type Plan,
+  type PlanShape,
+} from "@/lib/plan";
+import { PLAN_JSON_SCHEMA } from "@/lib/schema";
+import { DEFAULT_TEMPLATE_ID, findTemplate, TEMPLATES, type StrategyTemplate } from "@/lib/templates";
+
+// How many times we send the model its own mistakes before giving up.
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export type ValidatedResult = {
+  parsed: unknown;
+  violations: string[]; // problems still present after the last repair round
+  repairs: number;
+};
+
+function repairPrompt(problems: string[]) {
+  return [
+    "Your previous reply did not match the required JSON shape:",
+    ...problems.map((p) => `- ${p}`),
+    "",
+    "Return the complete corrected JSON only. Keep everything that was already correct.",
+  ].join("\n");
+}
+
+/**
+ * Asks the model and validates the reply. While it is unparseable or breaks
+ * the schema, the problems are sent back for a bounded number of repair
+ * rounds. `firstText` reuses a reply that was already streamed.
+ */
+export async function completeValidated(
+  provider: LLMProvider,
+  req: CompletionRequest,
+  validate: (raw: unknown) => string[],
+  firstText?: string
+): Promise<ValidatedResult> {
+  let text = firstText ?? (await provider.complete(req)).text;
+  let messages = req.messages;
+  let repairs = 0;
+
+  for (;;) {
+    let ok = false;
+    let parsed: unknown = null;
+    let problems: string[];
+    try {
+      parsed = JSON.parse(text);
+      ok = true;
+      problems = validate(parsed);
+    } catch {
+      problems = ["response is not valid JSON"];
+    }
+
+    if (!problems.length || repairs >= MAX_REPAIR_ATTEMPTS) {
+      if (!ok) {
+        throw new ModelOutputError(
+          "Model did not return valid JSON. Try again.",
+          text.slice(0, 2000)
+        );
+      }
+      return { parsed, violations: problems, repairs };
+    }
+
+    messages = [
+      ...messages,
+      { role: "assistant", content: text },
+      { role: "user", content: repairPrompt(problems) },
+    ];
+    text = (await provider.complete({ ...req, messages })).text;
+    repairs++;
+  }
+}
+
+/**
+ * The plan shape and strategy template a request body asks for, or the
+ * message for a 400 when either is not one of the allowed values.
+ */
+export function readPlanOptions(body: {
+  steps?: unknown;
+  days?: unknown;
+  template?: unknown;
+}): { shape: PlanShape; template: StrategyTemplate } | { error: string } {
+  const steps = body?.steps ?? DEFAULT_SHAPE.steps;
+  const days = body?.days ?? DEFAULT_SHAPE.days;
+  if (typeof steps !== "number" || !STEP_COUNTS.includes(steps)) {
+    return { error: `steps must be one of ${STEP_COUNTS.join(", ")}` };
+  }
+  if (typeof days !== "number" || !HORIZONS.includes(days)) {
+    return { error: `days must be one of ${HORIZONS.join(", ")}` };
+  }
+
+  const id = typeof body?.template === "string" ? body.template.trim() : "";
+  const template = findTemplate(id || DEFAULT_TEMPLATE_ID);
+  if (!template) return { error: `template must be one of ${TEMPLATES.map((t) => t.id).join(", ")}` };
+
+  return { shape: { steps, days }, template };
+}
+
+export function planRequest(messages: ChatMessage[]): CompletionRequest {
+  return {
+    task: "plan",
+    json: true,
+    schema: { name: "business_plan", schema: PLAN_JSON_SCHEMA },
+    messages,
+  };
+}
+
+/**
+ * The plan a route returns for a validated model reply. Only the steps,
+ * calendar and KPIs come from the model; the id, time, idea and inputs are
+ * the request's, so a reply can never make two plans share an id. `extra`
+ * sets other fields the model does not decide, such as the sprint chain links.
+ */
+export function planFromResult(
+  result: ValidatedResult,
+  idea: string,
+  inputs: Inputs,
+  shape: PlanShape,
+  templateId: string,
+  extra: Partial<Plan> = {}
+): Plan {
+  const fallbacks: string[] = [];
+  // The requested shape wins over however many steps and days the model sent.
+  const parsed = (result.parsed && typeof result.parsed === "object" ? result.parsed : {}) as Record<string, unknown>;
+  const reply = {
+    steps: parsed.steps,
+    calendarDays: parsed.calendarDays ?? parsed.calendar_days,
+    kpis: parsed.kpis,
+    shape,
+    template: templateId,
+  };
+  const plan = coercePlan(reply, idea, inputs, fallbacks);
+  // The route always returns a full calendar; only older saved plans lack one.
+  const calendarDays = withNewTaskIds(padCalendarDays(plan.calendarDays, fallbacks, shape.days));
+  return {
+    ...plan,
+    id: uid(),
+    createdAt: new Date().toISOString(),
+    idea,
+    inputs,
+    ...extra,
+    calendarDays,
+    validation: { repairs: result.repairs, violations: result.violations, fallbacks },
+  };
+}
@@ -0,0 +1,75 @@
+// iCalendar export: one all-day event per sprint day, tasks in the description.
+
+import type { Day } from "@/lib/calendar";
+import type { Plan } from "@/lib/plan";
+
+function escapeText(s: string) {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 lines are at most 75 octets; longer ones continue with a leading space.
+function fold(line: string) {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const out: string[] = [];
+  let cur = "";
+  let curLen = 0;
+  for (const ch of line) {
+    const len = new TextEncoder().encode(ch).length;
+    if (curLen + len > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = "";
+      curLen = 0;
+    }
+    cur += ch;
+    curLen += len;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+function compactDate(iso: string) {
+  return iso.replace(/-/g, "");
+}
+
+function nextDay(iso: string) {
+  const [y, m, d] = iso.split("-").map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + 1));
+  return next.toISOString().slice(0, 10);
+}
+
+function stamp(d: Date) {
+  return d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function calendarToIcs(plan: Plan, days: Day[]): string {
+  const now = stamp(new Date());
+  const name = plan.name || plan.idea;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ProfitBot//Business Plan Generator//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`Sprint: ${name}`)}`,
+  ];
+
+  for (const d of days) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${plan.id}-day${d.day}@profitbot`,
+      `DTSTAMP:${now}`,
+      `DTSTART;VALUE=DATE:${compactDate(d.date)}`,
+      `DTEND;VALUE=DATE:${compactDate(nextDay(d.date))}`,
+      `SUMMARY:${escapeText(`Day ${d.day}: ${d.focus}`)}`,
+      `DESCRIPTION:${escapeText(d.tasks.map((t) => `- ${t}`).join("\n"))}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,238 @@
+// Turns an exported or hand-written plan back into a Plan. Accepts the JSON
+// export envelope, a bare plan object, or Markdown with "Step N" headings and
+// bullet lists. Everything goes through coercePlan like a model reply does.
+
+import { EXPORT_FORMAT, EXPORT_VERSION } from "@/lib/export";
+import { coercePlan, legacyTaskId, padCalendarDays, planShape, type Checks, type Inputs, type Plan } from "@/lib/plan";
+import { coerceChecks } from "@/lib/store/types";
+
+export type ImportResult = {
+  plan: Plan;
+  checks: Checks;
+};
+
+/** Thrown when the text is neither a plan JSON nor usable Markdown. */
+export class ImportError extends Error {}
+
+const INPUT_LABELS: Record<string, keyof Inputs> = {
+  "target customer": "targetCustomer",
+  "core offer": "coreOffer",
+  differentiator: "differentiator",
+  "price point": "pricePoint",
+  geography: "geography",
+  "geography / market": "geography",
+  goal: "goal",
+  notes: "notes",
+};
+
+type Raw = Record<string, unknown>;
+
+function fromJson(text: string): { raw: Raw; checks: Checks } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError("This file is not valid JSON.");
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new ImportError("Expected a plan object.");
+  }
+
+  const obj = data as Raw;
+  if (obj.format === EXPORT_FORMAT) {
+    const version = typeof obj.version === "number" ? obj.version : 0;
+    if (version > EXPORT_VERSION) {
+      throw new ImportError(`This export is version ${version}; this app reads up to version ${EXPORT_VERSION}.`);
+    }
+    if (!obj.plan || typeof obj.plan !== "object") throw new ImportError("The export has no plan.");
+    return { raw: obj.plan as Raw, checks: coerceChecks(obj.checks) ?? {} };
+  }
+
+  if (!Array.isArray(obj.steps)) throw new ImportError("Expected a plan with a steps list.");
+  return { raw: obj, checks: {} };
+}
+
+type MdStep = { title: string; summary: string[]; whatThisDoes: string[]; howTo: string[]; output: string };
+type MdDay = { title: string; tasks: string[]; done: number[] };
+type MdKpi = { name: string; unit: string; target: number; actuals: Record<number, number> };
+
+const STEP_HEADING = /^step\s*(\d+)\s*[:.)\-–—]?\s*(.*)$/i;
+const DAY_HEADING = /^day\s*(\d+)\b\s*(.*)$/i;
+const FIELD = /^(?:\*\*)?([^:*]{2,40}?):(?:\*\*)?\s*(.+)$/;
+const TASK = /^[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const BULLET = /^(?:[-*+•]|\d+[.)])\s+(.*)$/;
+// formatKpi's output: "$1,200", "10 calls" or a bare number.
+const KPI_AMOUNT = /^(\$)?\s*(-?[\d,]*\.?\d+)\s*(.*)$/;
+const KPI_DAY = /day\s*(\d+)\s*:\s*(-?[\d,]*\.?\d+)/gi;
+
+function stripMd(s: string) {
+  return s.replace(/\*\*|__/g, "").replace(/\\([#>*+-])/g, "$1").trim();
+}
+
+// Section names that decide where a step's bullets go.
+function stepSection(heading: string): "what" | "how" | "output" | "draft" | null {
+  const h = heading.toLowerCase();
+  if (/^draft\b/.test(h)) return "draft";
+  if (/what|why|explain/.test(h)) return "what";
+  if (/how|checklist|tasks|actions/.test(h)) return "how";
+  if (/output|deliverable/.test(h)) return "output";
+  return null;
+}
+
+function fromMarkdown(text: string): { raw: Raw; checks: Checks } {
+  let title = "";
+  const fields: Record<string, string> = {};
+  const steps: MdStep[] = [];
+  const days: MdDay[] = [];
+  const kpis: MdKpi[] = [];
+
+  let mode: "top" | "step" | "calendar" | "report" | "kpis" = "top";
+  let section: ReturnType<typeof stepSection> = null;
+  const step = () => steps[steps.length - 1];
+  const day = () => days[days.length - 1];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || /^(-{3,}|\*{3,}|_{3,})$/.test(line)) continue;
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const level = heading[1].length;
+      const h = stripMd(heading[2]);
+      // Headings inside a drafted deliverable are its own sections, not plan structure.
+      if (mode === "step" && section === "draft" && level >= 4) continue;
+
+      const stepMatch = h.match(STEP_HEADING);
+      const dayMatch = h.match(DAY_HEADING);
+
+      if (stepMatch) {
+        mode = "step";
+        section = null;
+        steps.push({ title: stepMatch[2], summary: [], whatThisDoes: [], howTo: [], output: "" });
+      } else if (level === 1 && !title) {
+        title = h.replace(/^(business plan|\d+-day marketing calendar)\s*:\s*/i, "");
+      } else if (dayMatch && mode === "calendar") {
+        const rest = dayMatch[2].replace(/^[\s:.\-–—]+/, "");
+        const colon = rest.indexOf(":");
+        days.push({ title: (colon >= 0 ? rest.slice(colon + 1) : rest).trim(), tasks: [], done: [] });
+      } else if (level <= 2 && /calendar|schedule/i.test(h)) {
+        mode = "calendar";
+      } else if (level <= 2 && /^validation report$/i.test(h)) {
+        // Its fields (e.g. "Price point") must not overwrite the inputs.
+        mode = "report";
+      } else if (level <= 2 && /^kpis?$/i.test(h)) {
+        mode = "kpis";
+      } else if (mode === "kpis" && level >= 3) {
+        kpis.push({ name: h, unit: "", target: 0, actuals: {} });
+      } else if (/^inputs?$/i.test(h)) {
+        mode = "top";
+      } else if (mode === "step") {
+        section = stepSection(h);
+      }
+      continue;
+    }
+
+    const task = line.match(TASK);
+    const bullet = task ? null : line.match(BULLET);
+    const item = stripMd(task ? task[2] : bullet ? bullet[1] : line);
+    const field = item.match(FIELD);
+
+    if (mode === "report") continue;
+
+    if (mode === "kpis") {
+      const kpi = kpis[kpis.length - 1];
+      const label = field?.[1].trim().toLowerCase();
+      const amount = label === "target" ? field![2].trim().match(KPI_AMOUNT) : null;
+      if (kpi && amount) {
+        kpi.target = Number(amount[2].replace(/,/g, ""));
+        kpi.unit = amount[1] ? "$" : amount[3].trim();
+      } else if (kpi && label === "daily actuals") {
+        for (const [, d, v] of field![2].matchAll(KPI_DAY)) kpi.actuals[Number(d)] = Number(v.replace(/,/g, ""));
+      }
+      // "Actual" is the running total, rebuilt from the daily amounts.
+      continue;
+    }
+
+    if (mode === "calendar") {
+      if (day() && (task || bullet)) {
+        if (task && task[1].toLowerCase() === "x") day().done.push(day().tasks.length);
+        day().tasks.push(item);
+      }
+      continue;
+    }
+
+    if (mode === "step" && step()) {
+      // Drafts come back through JSON import only.
+      if (section === "draft") continue;
+      const s = step();
+      if (field && /^(output|deliverable)$/i.test(field[1].trim())) {
+        s.output = field[2].trim();
+      } else if (section === "output") {
+        s.output = s.output ? `${s.output} ${item}` : item;
+      } else if (task || (bullet && section === "how")) {
+        s.howTo.push(item);
+      } else if (bullet) {
+        s.whatThisDoes.push(item);
+      } else {
+        s.summary.push(item);
+      }
+      continue;
+    }
+
+    if (field) fields[field[1].trim().toLowerCase()] = field[2].trim();
+  }
+
+  if (!steps.length && days.length) {
+    throw new ImportError(
+      "This looks like a calendar-only export, which has no steps to rebuild the plan from. Import the plan's Markdown or either JSON export instead."
+    );
+  }
+  if (!steps.length) {
+    throw new ImportError('No steps found. Use headings like "## Step 1: Title" with bullet lists under them.');
+  }
+
+  const inputs: Inputs = {};
+  for (const [label, value] of Object.entries(fields)) {
+    // "14-day goal", "30-day goal", ... depending on the exported horizon.
+    const key = INPUT_LABELS[label.replace(/^\d+-day goal$/, "goal")];
+    if (key) inputs[key] = value;
+  }
+
+  const idea = fields.idea || title;
+  const generated = fields.generated ? new Date(fields.generated) : null;
+  const checks: Checks = {};
+  days.forEach((d, i) => d.done.forEach((t) => (checks[legacyTaskId(i + 1, t)] = true)));
+
+  const raw: Raw = {
+    idea,
+    inputs,
+    steps: steps.map((s) => ({ ...s, summary: s.summary.join(" ") })),
+  };
+  if (fields.idea && title) raw.name = title;
+  if (kpis.length) raw.kpis = kpis;
+  if (generated && !isNaN(generated.getTime())) raw.createdAt = generated.toISOString();
+  if (days.length) {
+    raw.calendarDays = days.map((d, i) => ({ day: i + 1, title: d.title, tasks: d.tasks }));
+  }
+  return { raw, checks };
+}
+
+/** Parses pasted or uploaded text into a plan and its saved checkbox state. */
+export function parseImport(text: string): ImportResult {
+  const trimmed = text.trim();
+  if (!trimmed) throw new ImportError("Nothing to import.");
+
+  const isJson = trimmed.startsWith("{") || trimmed.startsWith("[");
+  const { raw, checks } = isJson ? fromJson(trimmed) : fromMarkdown(trimmed);
+
+  const fallbacks: string[] = [];
+  const plan = coercePlan(raw, "", {}, fallbacks);
+  if (!plan.idea) plan.idea = plan.steps[0]?.title || "Imported plan";
+  const { days } = planShape(plan);
+  if (plan.calendarDays && plan.calendarDays.length < days) {
+    plan.calendarDays = padCalendarDays(plan.calendarDays, fallbacks, days);
+  }
+  if (!isJson && fallbacks.length) plan.validation = { repairs: 0, violations: [], fallbacks };
+
+  return { plan, checks };
+}
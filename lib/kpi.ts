@@ -0,0 +1,98 @@
+// KPI tracking against the sprint goal: cumulative actuals per sprint day
+// against a straight line to each target, and whether the plan is on track.
+
+import { planDays, toIsoDate } from "@/lib/calendar";
+import { MAX_KPIS, type Kpi, type Plan } from "@/lib/plan";
+import { progressPercent } from "@/lib/progress";
+
+export type KpiStatus = "not-started" | "on-track" | "off-track" | "done";
+
+export const KPI_STATUS_LABELS: Record<KpiStatus, string> = {
+  "not-started": "not started",
+  "on-track": "on track",
+  "off-track": "off track",
+  done: "target reached",
+};
+
+export type KpiPoint = {
+  day: number;
+  expected: number;        // where a straight line to the target is at the end of this day
+  actual: number | null;   // running total; null for future dates
+};
+
+export type KpiProgress = {
+  kpi: Kpi;
+  total: number;
+  percent: number;
+  expected: number;        // the straight line at the end of the last finished day
+  status: KpiStatus;
+  points: KpiPoint[];
+};
+
+/** "$2,000" for money, "20 leads" for everything else. */
+export function formatKpi(value: number, unit: string) {
+  const n = value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  if (unit === "$") return `$${n}`;
+  return unit ? `${n} ${unit}` : n;
+}
+
+/** The sprint day today falls on: 0 before day 1, the last day once the sprint is over. */
+export function currentSprintDay(plan: Plan, now = new Date()) {
+  const today = toIsoDate(now);
+  return planDays(plan).filter((d) => d.date <= today).length;
+}
+
+export function kpiProgress(plan: Plan, now = new Date()): KpiProgress[] {
+  const days = planDays(plan);
+  const today = toIsoDate(now);
+  // Today is still running, so the status only expects yesterday's share.
+  const finished = days.filter((d) => d.date < today).length;
+  const started = days.some((d) => d.date <= today);
+
+  return (plan.kpis ?? []).map((kpi) => {
+    let running = 0;
+    const points = days.map((d) => {
+      running += kpi.actuals[d.day] ?? 0;
+      return {
+        day: d.day,
+        expected: (kpi.target * d.day) / days.length,
+        actual: d.date <= today ? running : null,
+      };
+    });
+
+    const total = Object.values(kpi.actuals).reduce((a, b) => a + b, 0);
+    const expected = days.length ? (kpi.target * finished) / days.length : 0;
+    const status: KpiStatus =
+      total >= kpi.target ? "done" : !started ? "not-started" : total >= expected ? "on-track" : "off-track";
+
+    return { kpi, total, percent: progressPercent(total, kpi.target), expected, status, points };
+  });
+}
+
+function withKpis(plan: Plan, kpis: Kpi[]): Plan {
+  return { ...plan, kpis: kpis.length ? kpis : undefined };
+}
+
+/** Records the amount for one sprint day; `null` clears it. */
+export function setKpiActual(plan: Plan, id: string, day: number, value: number | null): Plan {
+  const kpis = (plan.kpis ?? []).map((k) => {
+    if (k.id !== id) return k;
+    const actuals = { ...k.actuals };
+    if (value === null) delete actuals[day];
+    else actuals[day] = value;
+    return { ...k, actuals };
+  });
+  return withKpis(plan, kpis);
+}
+
+/** Adds a KPI by hand, for plans generated before KPIs or ones the model missed. */
+export function addKpi(plan: Plan, kpi: Pick<Kpi, "name" | "unit" | "target">): Plan {
+  const kpis = plan.kpis ?? [];
+  if (kpis.length >= MAX_KPIS || !kpi.name.trim() || !(kpi.target > 0)) return plan;
+  const id = `kpi_${Date.now().toString(36)}`;
+  return withKpis(plan, [...kpis, { id, name: kpi.name.trim(), unit: kpi.unit.trim(), target: kpi.target, actuals: {} }]);
+}
+
+export function removeKpi(plan: Plan, id: string): Plan {
+  return withKpis(plan, (plan.kpis ?? []).filter((k) => k.id !== id));
+}
@@ -0,0 +1,279 @@
+// Browser-side plan library. Every generated plan is kept under its id in a
+// single localStorage entry, alongside per-plan calendar checkbox state and
+// coach conversations.
+
+import { planDays } from "@/lib/calendar";
+import { COACH_MAX_SAVED, coerceCoachMessages, type CoachMessage } from "@/lib/coach";
+import { coerceComparison, type Comparison } from "@/lib/compare";
+import { coercePlan, uid, type Checks, type Plan } from "@/lib/plan";
+
+const LIBRARY_KEY = "bsg_plans_v1";
+const LEGACY_PLAN_KEY = "bsg_latest_plan_v1";
+const CHECKS_PREFIX = "bsg_task_checks_v2_";
+// Checks by task position, under a hash of the plan id (before tasks had ids).
+const LEGACY_CHECKS_PREFIX = "bsg_calendar_checks_v1_";
+const COACH_PREFIX = "bsg_coach_v1_";
+// Random id for this browser, sent with model requests for per-user rate limits.
+const CLIENT_ID_KEY = "bsg_client_id_v1";
+// The last compare-mode batch, kept until the next one replaces it.
+const COMPARE_KEY = "bsg_compare_v1";
+// Edit tokens for plans this browser shared, by plan id. Kept after a local
+// delete so the shared copy can still be updated or removed over the API.
+const SHARE_TOKENS_KEY = "bsg_share_tokens_v1";
+
+type Library = Record<string, Plan>;
+
+function safeJsonParse<T = unknown>(raw: string | null): T | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+function legacyChecksKey(plan: Plan) {
+  const base = plan.id || plan.idea || "latest";
+  let h = 2166136261;
+  for (let i = 0; i < base.length; i++) {
+    h ^= base.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return `${LEGACY_CHECKS_PREFIX}plan_${(h >>> 0).toString(16)}`;
+}
+
+function checksKey(plan: Plan) {
+  return `${CHECKS_PREFIX}${plan.id}`;
+}
+
+/** Saved checkbox state for a plan's calendar, by task id. */
+export function readChecks(plan: Plan): Checks {
+  return safeJsonParse<Checks>(localStorage.getItem(checksKey(plan))) || {};
+}
+
+export function writeChecks(plan: Plan, checks: Checks) {
+  if (Object.keys(checks).length) localStorage.setItem(checksKey(plan), JSON.stringify(checks));
+  else localStorage.removeItem(checksKey(plan));
+}
+
+function coachKey(plan: Plan) {
+  return `${COACH_PREFIX}${plan.id}`;
+}
+
+/** The saved coach conversation for a plan, oldest first. */
+export function readCoach(plan: Plan): CoachMessage[] {
+  return coerceCoachMessages(safeJsonParse(localStorage.getItem(coachKey(plan))));
+}
+
+export function writeCoach(plan: Plan, messages: CoachMessage[]) {
+  if (messages.length) localStorage.setItem(coachKey(plan), JSON.stringify(messages.slice(-COACH_MAX_SAVED)));
+  else localStorage.removeItem(coachKey(plan));
+}
+
+export function clientId() {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = uid();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+}
+
+/** Headers for calls that reach the model: JSON plus this browser's client id. */
+export function modelHeaders(): Record<string, string> {
+  return { "Content-Type": "application/json", "X-Client-Id": clientId() };
+}
+
+function write(lib: Library) {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(lib));
+}
+
+/**
+ * Adds an imported plan with its checkbox state. A plan whose id is already
+ * in the library is added as a copy instead of overwriting it.
+ */
+export function importPlan(plan: Plan, checks: Checks): Plan {
+  const fresh = getPlan(plan.id) ? { ...plan, id: uid(), createdAt: new Date().toISOString() } : plan;
+  const saved = savePlan(fresh);
+  writeChecks(saved, checks);
+  return saved;
+}
+
+function storageKeys(prefix: string): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const k = localStorage.key(i);
+    if (k?.startsWith(prefix)) out.push(k);
+  }
+  return out;
+}
+
+/** Removes checkbox state and coach history whose plan is no longer in the library. */
+function pruneOrphanChecks(lib: Library) {
+  const plans = Object.values(lib);
+  const live = new Set([...plans.map(checksKey), ...plans.map(coachKey)]);
+  [...storageKeys(CHECKS_PREFIX), ...storageKeys(COACH_PREFIX)]
+    .filter((k) => !live.has(k))
+    .forEach((k) => localStorage.removeItem(k));
+}
+
+/**
+ * One-time move of position-keyed checks ("d3_t1") to task ids. Plans saved
+ * before tasks had ids get positional ids on load, so each old key finds the
+ * task that sat at that position when it was checked.
+ */
+function migrateChecks(lib: Library) {
+  const legacy = storageKeys(LEGACY_CHECKS_PREFIX);
+  if (!legacy.length) return;
+
+  for (const p of Object.values(lib)) {
+    const old = safeJsonParse<Checks>(localStorage.getItem(legacyChecksKey(p)));
+    if (!old) continue;
+    const days = planDays(p);
+    const checks: Checks = {};
+    for (const [key, at] of Object.entries(old)) {
+      const m = key.match(/^d(\d+)_t(\d+)$/);
+      const id = m ? days[Number(m[1]) - 1]?.taskIds[Number(m[2])] : undefined;
+      if (id && at) checks[id] = at;
+    }
+    writeChecks(p, { ...checks, ...readChecks(p) });
+  }
+  legacy.forEach((k) => localStorage.removeItem(k));
+}
+
+function read(): Library {
+  const raw = safeJsonParse<Record<string, unknown>>(localStorage.getItem(LIBRARY_KEY));
+  const lib: Library = {};
+  for (const v of Object.values(raw || {})) {
+    const p = coercePlan(v, "", {});
+    lib[p.id] = p;
+  }
+
+  // One-time move of the old single-slot plan into the library.
+  const legacy = safeJsonParse(localStorage.getItem(LEGACY_PLAN_KEY));
+  if (legacy) {
+    const p = coercePlan(legacy, "", {});
+    if (!lib[p.id]) lib[p.id] = p;
+    localStorage.removeItem(LEGACY_PLAN_KEY);
+    write(lib);
+    pruneOrphanChecks(lib);
+  }
+
+  migrateChecks(lib);
+  return lib;
+}
+
+export function planName(plan: Plan) {
+  return plan.name?.trim() || plan.idea || "Untitled plan";
+}
+
+/** Pinned first, then most recently updated. */
+export function listPlans(): Plan[] {
+  return Object.values(read()).sort((a, b) => {
+    if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+    return (b.updatedAt || b.createdAt).localeCompare(a.updatedAt || a.createdAt);
+  });
+}
+
+// useSyncExternalStore wants the same array back until the library changes.
+let listed: { raw: string | null; plans: Plan[] } | null = null;
+
+/** listPlans() for useSyncExternalStore: a new array only when the stored library changed. */
+export function listPlansSnapshot(): Plan[] {
+  if (listed && listed.raw === localStorage.getItem(LIBRARY_KEY)) return listed.plans;
+  const plans = listPlans();
+  // Read after listing: the first read may have moved the legacy plan in.
+  listed = { raw: localStorage.getItem(LIBRARY_KEY), plans };
+  return plans;
+}
+
+/** Calls `onChange` when another tab changes localStorage. */
+export function subscribeStorage(onChange: () => void) {
+  window.addEventListener("storage", onChange);
+  return () => window.removeEventListener("storage", onChange);
+}
+
+export function getPlan(id: string): Plan | null {
+  return read()[id] || null;
+}
+
+export function savePlan(plan: Plan): Plan {
+  const lib = read();
+  const saved = { ...plan, updatedAt: new Date().toISOString() };
+  lib[saved.id] = saved;
+  write(lib);
+  return saved;
+}
+
+export function renamePlan(id: string, name: string) {
+  const p = getPlan(id);
+  if (p) savePlan({ ...p, name: name.trim() || undefined });
+}
+
+export function togglePin(id: string) {
+  const p = getPlan(id);
+  if (p) savePlan({ ...p, pinned: !p.pinned });
+}
+
+export function duplicatePlan(id: string): Plan | null {
+  const p = getPlan(id);
+  if (!p) return null;
+  const now = new Date().toISOString();
+  return savePlan({
+    ...p,
+    id: uid(),
+    name: `${planName(p)} (copy)`,
+    pinned: false,
+    createdAt: now,
+  });
+}
+
+export function deletePlan(id: string) {
+  const lib = read();
+  const p = lib[id];
+  if (!p) return;
+  delete lib[id];
+  write(lib);
+  localStorage.removeItem(checksKey(p));
+  localStorage.removeItem(coachKey(p));
+  pruneOrphanChecks(lib);
+}
+
+function shareToken(id: string): string {
+  return safeJsonParse<Record<string, string>>(localStorage.getItem(SHARE_TOKENS_KEY))?.[id] || "";
+}
+
+function writeShareToken(id: string, token: string) {
+  const tokens = safeJsonParse<Record<string, string>>(localStorage.getItem(SHARE_TOKENS_KEY)) || {};
+  localStorage.setItem(SHARE_TOKENS_KEY, JSON.stringify({ ...tokens, [id]: token }));
+}
+
+/**
+ * Uploads the plan and its checkbox progress; returns the read-only /p/<id>
+ * link. Sharing again updates the same link with the edit token from the first share.
+ */
+export async function sharePlan(plan: Plan): Promise<string> {
+  const checks = readChecks(plan);
+  const token = shareToken(plan.id);
+  const resp = await fetch("/api/plans", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(token && { Authorization: `Bearer ${token}` }) },
+    body: JSON.stringify({ plan, checks }),
+  });
+  const data = await resp.json().catch(() => null);
+  if (!resp.ok) throw new Error(data?.error || `Share failed (${resp.status})`);
+  if (typeof data?.editToken === "string") writeShareToken(plan.id, data.editToken);
+
+  const url = `${window.location.origin}/p/${encodeURIComponent(plan.id)}`;
+  await navigator.clipboard?.writeText(url).catch(() => {});
+  return url;
+}
+
+export function readComparison(): Comparison | null {
+  return coerceComparison(safeJsonParse(localStorage.getItem(COMPARE_KEY)));
+}
+
+export function writeComparison(comparison: Comparison | null) {
+  if (comparison) localStorage.setItem(COMPARE_KEY, JSON.stringify(comparison));
+  else localStorage.removeItem(COMPARE_KEY);
+}
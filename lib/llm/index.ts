@@ -0,0 +1,54 @@
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import type { LLMConfig, LLMProvider } from "./types";
+
+export * from "./types";
+export * from "./usage";
+
+/**
+ * Reads provider settings from the environment:
+ * - LLM_PROVIDER: "openai" (default), "openai-compatible" or "mock"
+ * - LLM_MODEL, LLM_TEMPERATURE
+ * - LLM_BASE_URL / LLM_API_KEY for openai-compatible servers
+ * - OPENAI_API_KEY for openai
+ * - LLM_STRUCTURED_OUTPUT: "true"/"false", whether the server accepts json_schema
+ *   response formats (defaults to true for openai only)
+ */
+export function loadLLMConfig(env: Record<string, string | undefined> = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || "openai").trim().toLowerCase();
+  if (provider !== "openai" && provider !== "openai-compatible" && provider !== "mock") {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}"`);
+  }
+
+  const temperature = Number(env.LLM_TEMPERATURE);
+  const structured = env.LLM_STRUCTURED_OUTPUT?.trim().toLowerCase();
+
+  return {
+    provider,
+    model: env.LLM_MODEL?.trim() || (provider === "mock" ? "mock-1" : "gpt-4.1-mini"),
+    temperature: Number.isFinite(temperature) && env.LLM_TEMPERATURE ? temperature : 0.4,
+    baseUrl:
+      provider === "openai"
+        ? "https://api.openai.com/v1"
+        : env.LLM_BASE_URL?.trim() || "http://localhost:11434/v1",
+    apiKey: (provider === "openai" ? env.OPENAI_API_KEY : env.LLM_API_KEY)?.trim() || "",
+    structuredOutput: structured ? structured === "true" : provider === "openai",
+  };
+}
+
+export function createProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case "mock":
+      return createMockProvider(config.model);
+    case "openai":
+      if (!config.apiKey) throw new Error("Missing OPENAI_API_KEY in .env.local");
+      return createOpenAIProvider({ name: "OpenAI", ...config, streamUsage: true });
+    case "openai-compatible":
+      // Not every compatible server accepts stream_options; streamed usage is estimated there.
+      return createOpenAIProvider({ name: "LLM server", ...config, streamUsage: false });
+  }
+}
+
+export function getProvider(): LLMProvider {
+  return createProvider(loadLLMConfig());
+}
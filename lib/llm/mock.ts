@@ -0,0 +1,314 @@
+import { stepDaySplit } from "@/lib/calendar";
+import { DEFAULT_SHAPE, type PlanShape } from "@/lib/plan";
+import type { CompletionRequest, LLMProvider } from "./types";
+import { estimateUsage } from "./usage";
+
+// Deterministic offline provider. Reads the idea back out of the prompt and
+// returns a canned plan shaped like a real model response, so the app and
+// scripts work with no network and no API key.
+
+function hash(s: string) {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+function field(prompt: string, label: string) {
+  const m = prompt.match(new RegExp(`${label}:\\s*(.+)`));
+  const v = m?.[1]?.trim() || "";
+  return v === "(not provided)" ? "" : v;
+}
+
+function shapeOf(prompt: string): PlanShape {
+  const m = prompt.match(/Plan shape:\s*(\d+) steps over (\d+) days/);
+  return m ? { steps: Number(m[1]), days: Number(m[2]) } : DEFAULT_SHAPE;
+}
+
+const CHANNELS = [
+  { name: "Instagram Reels", action: "Post one short video" },
+  { name: "cold email", action: "Send 20 personalised emails" },
+  { name: "local Facebook groups", action: "Share one helpful post" },
+  { name: "LinkedIn", action: "Publish one story post and send 10 DMs" },
+];
+
+function mockPlan(prompt: string) {
+  const idea = field(prompt, "Business idea") || "your business";
+  const customer = field(prompt, "Target customer") || "your ideal customer";
+  const offer = field(prompt, "Core offer") || idea;
+  const price = field(prompt, "Price point") || "an intro price";
+  const shape = shapeOf(prompt);
+  // Follow-on sprints move on to the next channels.
+  const sprint = Number(field(prompt, "Sprint")) || 1;
+  const first = (hash(idea.toLowerCase()) + sprint - 1) % CHANNELS.length;
+
+  // One acquisition step per middle slot, each on the next channel.
+  const acquisition = Array.from({ length: Math.max(shape.steps - 2, 1) }, (_, k) => {
+    const channel = CHANNELS[(first + k) % CHANNELS.length];
+    const round = k >= CHANNELS.length ? ` (round ${Math.floor(k / CHANNELS.length) + 1})` : "";
+    return {
+      title: `Acquisition Sprint on ${channel.name}${round}`,
+      summary: `Run a focused daily outreach block on ${channel.name}.`,
+      whatThisDoes: [
+        "Puts the offer in front of real prospects every day.",
+        "Produces response data you can iterate on.",
+      ],
+      howTo: [
+        `Set up or tidy your ${channel.name} profile to match the offer.`,
+        "Write 3 hooks: pain, outcome and differentiator.",
+        `${channel.action} each day.`,
+        "Reply to every response within 24 hours.",
+        "Track views, replies, leads and bookings in one sheet.",
+        "Drop the weakest hook after day 3 and test a new one.",
+      ],
+      output: `A tracked ${channel.name} pipeline with at least 10 conversations.`,
+    };
+  });
+
+  const steps = [
+    {
+      title: "Positioning & Offer",
+      summary: `Define exactly who ${idea} serves and why they should buy now.`,
+      whatThisDoes: [
+        `Makes ${offer} easy to understand in one sentence.`,
+        `Focuses every message on ${customer}.`,
+        "Gives you a single page to send people to.",
+      ],
+      howTo: [
+        `Write a one-liner: "${offer} for ${customer}".`,
+        "List the top 3 problems your customer mentions in their own words.",
+        `Set ${price} and one clear package.`,
+        "Draft a landing page headline, 3 bullets and a CTA.",
+        "Write answers to the 5 most likely objections.",
+        "Ask 3 people in your target market for feedback on the page.",
+      ],
+      output: "A one-page offer with a live booking or checkout link.",
+    },
+    ...acquisition,
+    {
+      title: "Proof & Retention",
+      summary: "Turn first customers into proof and referrals.",
+      whatThisDoes: [
+        "Builds trust for the next wave of prospects.",
+        "Creates a repeatable referral loop.",
+      ],
+      howTo: [
+        "Deliver for the first customer and note what made them happy.",
+        "Ask for a testimonial within 48 hours of delivery.",
+        "Publish the testimonial with a before/after or result.",
+        "Send a referral ask script to each customer.",
+        "Review the sprint numbers and pick next sprint's focus.",
+        "Write down the 3 changes you'll make to the offer.",
+      ],
+      output: "One published testimonial and a referral script in use.",
+    },
+  ];
+
+  const calendarDays = stepDaySplit(shape).flatMap((count, s) =>
+    Array.from({ length: count }, (_, j) => ({
+      step: s + 1,
+      title: steps[s].title,
+      tasks: [
+        steps[s].howTo[(j * 2) % steps[s].howTo.length],
+        steps[s].howTo[(j * 2 + 1) % steps[s].howTo.length],
+      ],
+    }))
+  ).map((d, i) => ({ day: i + 1, ...d }));
+
+  // Targets scale with the horizon: roughly 1.5 leads a day, a third of them booked.
+  const leads = Math.max(5, Math.round(shape.days * 1.5));
+  const kpis = [
+    { name: "Qualified leads", unit: "leads", target: leads },
+    { name: "Booked calls", unit: "calls", target: Math.max(2, Math.round(leads / 3)) },
+    { name: "Paying customers", unit: "customers", target: Math.max(1, Math.round(leads / 10)) },
+  ];
+
+  return { idea, steps, calendarDays, kpis };
+}
+
+// Replacement for one step: the canned step, nudged by the user's instruction.
+function mockStep(prompt: string) {
+  const plan = mockPlan(prompt);
+  const n = Number(field(prompt, "Step to replace")) || 1;
+  const instruction = field(prompt, "Instruction from the user");
+  const base = plan.steps[Math.min(Math.max(n, 1), plan.steps.length) - 1];
+  const dayNumbers = field(prompt, "Calendar days to rewrite")
+    .split(",")
+    .map((d) => Number(d.trim()))
+    .filter((d) => d > 0);
+
+  const step = {
+    ...base,
+    title: `${base.title} (revised)`,
+    summary: instruction ? `${base.summary} Revised to: ${instruction}.` : base.summary,
+  };
+  const calendarDays = dayNumbers.map((day, j) => ({
+    day,
+    step: n,
+    title: step.title,
+    tasks: [step.howTo[(j * 2 + 1) % step.howTo.length], step.howTo[(j * 2) % step.howTo.length]],
+  }));
+
+  return { step, calendarDays };
+}
+
+// Scores from each idea's hash, so the same comparison always ranks the same way.
+function mockScorecard(prompt: string) {
+  const count = Number(field(prompt, "Plans to compare")) || 2;
+  const ideas = [...prompt.matchAll(/Business idea:\s*(.+)/g)].map((m) => m[1].trim());
+  const entries = Array.from({ length: count }, (_, i) => {
+    const h = hash((ideas[i] || `plan ${i}`).toLowerCase());
+    return {
+      effort: (h % 5) + 1,
+      timeToRevenueDays: 3 + (h % 19),
+      channelFit: ((h >> 3) % 5) + 1,
+      risk: ((h >> 6) % 5) + 1,
+      notes: `${ideas[i] || `Plan ${i}`}: effort and risk follow from how much has to be built before the first sale.`,
+    };
+  });
+  const score = (e: (typeof entries)[number]) => e.channelFit * 2 - e.effort - e.risk - e.timeToRevenueDays / 7;
+  const winner = entries.reduce((best, e, i) => (score(e) > score(entries[best]) ? i : best), 0);
+  return { entries, winner, reason: `${ideas[winner] || `Plan ${winner}`} has the best balance of fit, speed and risk.` };
+}
+
+// A report that reads the inputs back; ideas without a price point get a no-go.
+function mockReport(prompt: string) {
+  const idea = field(prompt, "Business idea") || "your business";
+  const customer = field(prompt, "Target customer") || "small business owners";
+  const price = field(prompt, "Price point");
+  const geography = field(prompt, "Geography / market") || "your area";
+  return {
+    icp: {
+      summary: `${customer} in ${geography} who already pay to solve this problem.`,
+      traits: [
+        "Has the problem at least weekly.",
+        "Already spends money or time on a workaround.",
+        "Can decide on the purchase alone.",
+      ],
+      whereToFind: [`Local groups and forums in ${geography}`, "LinkedIn searches by job title"],
+    },
+    competitors: [
+      { name: `Established ${idea} providers`, kind: "direct", note: "Known names that customers compare you to first." },
+      { name: "Freelancers on marketplaces", kind: "direct", note: "Cheaper, but less consistent." },
+      { name: "Doing it themselves", kind: "alternative", note: "Free in money, costly in time." },
+    ],
+    pricing: price
+      ? {
+          assessment: "fair",
+          summary: `${price} sits in the middle of what customers pay for the alternatives.`,
+          benchmarks: ["Freelancers: 30–50% lower", "Established providers: 20–40% higher"],
+        }
+      : {
+          assessment: "unknown",
+          summary: "No price point was given, so pricing cannot be checked.",
+          benchmarks: [],
+        },
+    assumptions: [
+      {
+        assumption: `${customer} feel this problem strongly enough to pay.`,
+        test: "Interview 5 people from the target market about the last time it happened.",
+        passIf: "3 of 5 describe a recent, costly example unprompted.",
+      },
+      {
+        assumption: "They can be reached cheaply.",
+        test: "Post the offer in 3 places where they gather.",
+        passIf: "At least 5 replies or sign-ups within 3 days.",
+      },
+      {
+        assumption: "The price is acceptable.",
+        test: "Ask for a pre-order or deposit on a one-page offer.",
+        passIf: "At least 1 person pays.",
+      },
+    ],
+    verdict: price
+      ? { decision: "go", reason: "The demand and price look plausible; run the assumption tests in the first days." }
+      : { decision: "no-go", reason: "Set a price point and re-check before committing two weeks to the plan." },
+  };
+}
+
+// Plain-text coaching: drafts when asked to, otherwise walks through the day's open tasks.
+function mockCoach(req: CompletionRequest) {
+  const system = req.messages.find((m) => m.role === "system")?.content ?? "";
+  const question = [...req.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+  const day = system.match(/Current day:\s*(\d+)/)?.[1] ?? "1";
+  const open = [...system.matchAll(/- \[ \] (.+)/g)].map((m) => m[1].trim());
+
+  if (/draft|write/i.test(question)) {
+    const what = question.replace(/^.*?(draft|write)( this)?( for me)?:?\s*/i, "") || "the deliverable";
+    return [
+      `Here is a first draft of ${what}:`,
+      "",
+      "**Headline:** Get the result you want without the usual hassle.",
+      "**Subheadline:** Built for people who are tired of workarounds.",
+      "**Call to action:** Book a 15-minute call this week.",
+      "",
+      "Edit the wording to match how your customers describe the problem.",
+    ].join("\n");
+  }
+  const next = open.length ? open.map((t) => `- ${t}`).join("\n") : "- Everything for today is done. Review tomorrow's tasks.";
+  return `For day ${day}, focus on the open tasks in order:\n${next}\n\nStart with the first one and time-box it to 45 minutes.`;
+}
+
+// Picks a kind from the deliverable's wording and fills a few sections from the inputs.
+function mockDraft(prompt: string) {
+  const idea = field(prompt, "Business idea") || "your business";
+  const customer = field(prompt, "Target customer") || "your ideal customer";
+  const price = field(prompt, "Price point") || "an intro price";
+  const output = field(prompt, "Deliverable to write") || "the deliverable";
+  if (/email|outreach|pipeline|message/i.test(output)) {
+    return {
+      kind: "email-sequence",
+      title: `Outreach emails for ${idea}`,
+      sections: [
+        { heading: `Quick question about ${customer}`, body: `Hi {first name},\n\nI help ${customer} with ${idea}. Would a 15-minute call this week be useful?\n\nThanks` },
+        { heading: "Following up", body: "Hi {first name},\n\nJust bumping this up in case it got buried. Happy to share a short example first." },
+        { heading: "Closing the loop", body: "Hi {first name},\n\nI will stop here. If the timing changes, reply to this email and I will pick it up." },
+      ],
+    };
+  }
+  return {
+    kind: "landing-page",
+    title: `${idea} landing page`,
+    sections: [
+      { heading: "Hero", body: `${idea} for ${customer}.\nGet started for ${price}.` },
+      { heading: "The problem", body: `${customer} lose hours to workarounds that never quite fit.` },
+      { heading: "The offer", body: `One clear package at ${price}, set up within a week.` },
+      { heading: "Call to action", body: "Book a 15-minute call." },
+    ],
+  };
+}
+
+function respond(req: CompletionRequest) {
+  if (req.task === "coach") return mockCoach(req);
+  const prompt = req.messages.map((m) => m.content).join("\n");
+  const reply =
+    req.task === "step"
+      ? mockStep(prompt)
+      : req.task === "score"
+        ? mockScorecard(prompt)
+        : req.task === "report"
+          ? mockReport(prompt)
+          : req.task === "draft"
+            ? mockDraft(prompt)
+            : mockPlan(prompt);
+  return JSON.stringify(reply, null, 2);
+}
+
+export function createMockProvider(model = "mock-1"): LLMProvider {
+  return {
+    name: "mock",
+    model,
+    async complete(req: CompletionRequest) {
+      const text = respond(req);
+      return { text, usage: estimateUsage(req, text) };
+    },
+    async *stream(req: CompletionRequest) {
+      // Small chunks so streaming clients see steps arrive one at a time.
+      const text = respond(req);
+      for (let i = 0; i < text.length; i += 64) yield text.slice(i, i + 64);
+      return estimateUsage(req, text);
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import { ProviderError, type CompletionRequest, type LLMProvider, type TokenUsage } from "./types";
+
+type OpenAIOptions = {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  temperature: number;
+  structuredOutput: boolean;
+  // Ask for a final usage chunk on streams (`stream_options.include_usage`).
+  streamUsage: boolean;
+};
+
+// The `usage` object of a reply or of the last stream chunk.
+function readUsage(raw: unknown): TokenUsage | undefined {
+  const u = raw as { prompt_tokens?: unknown; completion_tokens?: unknown } | null;
+  if (typeof u?.prompt_tokens !== "number" || typeof u?.completion_tokens !== "number") return undefined;
+  return { promptTokens: u.prompt_tokens, completionTokens: u.completion_tokens };
+}
+
+/**
+ * Chat Completions client. Works against api.openai.com and any server that
+ * speaks the same protocol (Ollama, llama.cpp, vLLM, LM Studio...).
+ */
+export function createOpenAIProvider(opts: OpenAIOptions): LLMProvider {
+  const url = `${opts.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  async function post(req: CompletionRequest, stream: boolean) {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (opts.apiKey) headers.Authorization = `Bearer ${opts.apiKey}`;
+
+    const responseFormat =
+      req.schema && opts.structuredOutput
+        ? {
+            type: "json_schema",
+            json_schema: { name: req.schema.name, strict: true, schema: req.schema.schema },
+          }
+        : req.json || req.schema
+          ? { type: "json_object" }
+          : undefined;
+
+    const resp = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: opts.model,
+        temperature: opts.temperature,
+        ...(responseFormat ? { response_format: responseFormat } : {}),
+        ...(stream ? { stream: true } : {}),
+        ...(stream && opts.streamUsage ? { stream_options: { include_usage: true } } : {}),
+        messages: req.messages,
+      }),
+    });
+
+    if (!resp.ok) {
+      const raw = await resp.text().catch(() => "");
+      throw new ProviderError(`${opts.name} request failed (${resp.status})`, raw);
+    }
+    return resp;
+  }
+
+  return {
+    name: opts.name,
+    model: opts.model,
+    async complete(req: CompletionRequest) {
+      const resp = await post(req, false);
+      const data = await resp.json();
+      const text = data?.choices?.[0]?.message?.content ?? "";
+      return { text: String(text), usage: readUsage(data?.usage) };
+    },
+    async *stream(req: CompletionRequest) {
+      const resp = await post(req, true);
+      if (!resp.body) throw new ProviderError(`${opts.name} returned an empty stream`);
+
+      // Server-sent events: one `data: {...}` line per chunk, ending with `data: [DONE]`.
+      const reader = resp.body.getReader();
+      const decoder = new TextDecoder();
+      let buf = "";
+      let usage: TokenUsage | undefined;
+      // Ending early ([DONE], or the caller stopping) still closes the upstream connection.
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buf += decoder.decode(value, { stream: true });
+
+          let nl: number;
+          while ((nl = buf.indexOf("\n")) >= 0) {
+            const line = buf.slice(0, nl).trim();
+            buf = buf.slice(nl + 1);
+            if (!line.startsWith("data:")) continue;
+            const payload = line.slice(5).trim();
+            if (payload === "[DONE]") return usage;
+            let chunk;
+            try {
+              chunk = JSON.parse(payload);
+            } catch {
+              continue; // ignore keep-alives and partial lines
+            }
+            // The usage chunk comes last, with an empty `choices`.
+            usage = readUsage(chunk?.usage) ?? usage;
+            const delta = chunk?.choices?.[0]?.delta?.content;
+            if (typeof delta === "string" && delta) yield delta;
+          }
+        }
+        return usage;
+      } finally {
+        await reader.cancel().catch(() => {});
+        reader.releaseLock();
+      }
+    },
+  };
+}
@@ -0,0 +1,52 @@
+// Pulls finished elements out of a JSON document that is still being streamed.
+
+type ArrayScan = {
+  items: string[];  // raw JSON text of each complete element, in order
+  closed: boolean;  // true once the array's closing bracket has arrived
+};
+
+/** Returns the end index (exclusive) of the value starting at `i`, or -1 if it is incomplete. */
+function scanValue(text: string, i: number): number {
+  const open = text[i];
+  if (open !== "{" && open !== "[") return -1;
+
+  let depth = 0;
+  let inStr = false;
+  for (let j = i; j < text.length; j++) {
+    const c = text[j];
+    if (inStr) {
+      if (c === "\\") j++;
+      else if (c === '"') inStr = false;
+      continue;
+    }
+    if (c === '"') inStr = true;
+    else if (c === "{" || c === "[") depth++;
+    else if (c === "}" || c === "]") {
+      depth--;
+      if (depth === 0) return j + 1;
+    }
+  }
+  return -1;
+}
+
+/** Scans the top-level array stored under `"key"` in a partial JSON text. */
+export function scanArray(text: string, key: string): ArrayScan {
+  const out: ArrayScan = { items: [], closed: false };
+
+  const m = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text);
+  if (!m) return out;
+
+  let i = m.index + m[0].length;
+  for (;;) {
+    while (i < text.length && /[\s,]/.test(text[i])) i++;
+    if (i >= text.length) return out;
+    if (text[i] === "]") {
+      out.closed = true;
+      return out;
+    }
+    const end = scanValue(text, i);
+    if (end < 0) return out;
+    out.items.push(text.slice(i, end));
+    i = end;
+  }
+}
@@ -0,0 +1,66 @@
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type CompletionRequest = {
+  // What the call is for; lets the mock provider pick a canned response.
+  task: "plan" | "step" | "score" | "report" | "coach" | "draft";
+  messages: ChatMessage[];
+  json?: boolean;
+  // JSON Schema for providers with structured output; others fall back to `json`.
+  schema?: { name: string; schema: Record<string, unknown> };
+};
+
+// Token counts for one call.
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  // Set when the provider sent no counts and they were estimated from the text.
+  estimated?: boolean;
+};
+
+export type CompletionResult = {
+  text: string;
+  usage?: TokenUsage;
+};
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(req: CompletionRequest): Promise<CompletionResult>;
+  // Yields text deltas as they arrive and returns the usage, when the provider
+  // reports it. Providers without it fall back to complete().
+  stream?(req: CompletionRequest): AsyncGenerator<string, TokenUsage | undefined>;
+}
+
+export type LLMConfig = {
+  provider: "openai" | "openai-compatible" | "mock";
+  model: string;
+  temperature: number;
+  baseUrl: string;
+  apiKey: string;
+  structuredOutput: boolean;
+};
+
+/** Raised for upstream failures; `raw` carries the provider's response body. */
+export class ProviderError extends Error {
+  raw: string;
+
+  constructor(message: string, raw = "") {
+    super(message);
+    this.name = "ProviderError";
+    this.raw = raw;
+  }
+}
+
+/** Raised when the model's reply still is not usable JSON after repair attempts. */
+export class ModelOutputError extends Error {
+  raw: string;
+
+  constructor(message: string, raw = "") {
+    super(message);
+    this.name = "ModelOutputError";
+    this.raw = raw;
+  }
+}
@@ -0,0 +1,46 @@
+import type { CompletionRequest, TokenUsage } from "./types";
+
+// Rough token count: about four characters per token for English text.
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+/** Usage guessed from the prompt and reply text, for providers that report none. */
+export function estimateUsage(req: CompletionRequest, reply: string): TokenUsage {
+  return {
+    promptTokens: estimateTokens(req.messages.map((m) => m.content).join("\n")),
+    completionTokens: estimateTokens(reply),
+    estimated: true,
+  };
+}
+
+/**
+ * Passes a provider stream through, then hands `onDone` the usage the stream
+ * returned, or an estimate from the text when it returned none. A stream that
+ * fails part way is still counted.
+ */
+export async function* meterStream(
+  req: CompletionRequest,
+  source: AsyncGenerator<string, TokenUsage | undefined>,
+  onDone: (usage: TokenUsage) => void | Promise<void>
+): AsyncGenerator<string, TokenUsage> {
+  let text = "";
+  let usage: TokenUsage | undefined;
+  try {
+    for (;;) {
+      const next = await source.next();
+      if (next.done) {
+        usage = next.value;
+        break;
+      }
+      text += next.value;
+      yield next.value;
+    }
+  } finally {
+    // Closes the source too when the reader stopped early.
+    if (!usage) await source.return(undefined);
+    usage ??= estimateUsage(req, text);
+    await onDone(usage);
+  }
+  return usage;
+}
@@ -0,0 +1,273 @@
+// Server-side PDF rendering of a plan straight from its JSON, so the document
+// does not depend on how the page happens to look on screen.
+
+import PDFDocument from "pdfkit";
+import { planDays, type Day } from "@/lib/calendar";
+import { calendarTitle, draftTitle, inputRows, kpiRows, reportSections } from "@/lib/export";
+import { planShape, type Checks, type Plan } from "@/lib/plan";
+
+export type PdfKind = "plan" | "calendar";
+
+type Doc = PDFKit.PDFDocument;
+
+const MARGIN = 50;
+const BOX = 8; // checkbox size
+
+// The built-in PDF fonts only cover WinAnsi; swap or drop anything else.
+function pdfSafe(s: string) {
+  return s
+    .replace(/[→⇒]/g, "->")
+    .replace(/[←]/g, "<-")
+    .replace(/[□☐✓✔]/g, "")
+    .replace(/[^\x20-\x7E\xA0-\xFF–—‘’“”…•€™\n]/g, "")
+    .trim();
+}
+
+function contentWidth(doc: Doc) {
+  return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+}
+
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) doc.addPage();
+}
+
+function checkbox(doc: Doc, x: number, y: number, checked: boolean) {
+  doc.save().lineWidth(0.8).rect(x, y, BOX, BOX).stroke();
+  if (checked) {
+    doc
+      .moveTo(x + 1.5, y + BOX / 2)
+      .lineTo(x + BOX / 2.5, y + BOX - 1.5)
+      .lineTo(x + BOX - 1, y + 1.5)
+      .stroke();
+  }
+  doc.restore();
+}
+
+function heading(doc: Doc, text: string, size: number) {
+  ensureSpace(doc, size * 2.5);
+  doc.font("Helvetica-Bold").fontSize(size).fillColor("#111").text(pdfSafe(text), MARGIN);
+  doc.moveDown(0.4);
+}
+
+function paragraph(doc: Doc, text: string) {
+  doc.font("Helvetica").fontSize(10).fillColor("#333");
+  const t = pdfSafe(text);
+  ensureSpace(doc, doc.heightOfString(t, { width: contentWidth(doc) }));
+  doc.text(t, MARGIN, doc.y, { width: contentWidth(doc) });
+  doc.moveDown(0.6);
+}
+
+function list(doc: Doc, items: string[], style: "bullet" | "checkbox") {
+  doc.font("Helvetica").fontSize(10).fillColor("#333");
+  const indent = 16;
+  const width = contentWidth(doc) - indent;
+  for (const item of items) {
+    const t = pdfSafe(item);
+    ensureSpace(doc, doc.heightOfString(t, { width }) + 4);
+    const y = doc.y;
+    if (style === "checkbox") checkbox(doc, MARGIN, y + 1.5, false);
+    else doc.text("•", MARGIN + 2, y);
+    doc.text(t, MARGIN + indent, y, { width });
+    doc.moveDown(0.3);
+  }
+  doc.moveDown(0.4);
+}
+
+function fieldRows(doc: Doc, rows: [string, string][]) {
+  for (const [label, value] of rows) {
+    doc.font("Helvetica-Bold").fontSize(10).fillColor("#111").text(`${label}: `, MARGIN, doc.y, {
+      continued: true,
+    });
+    doc.font("Helvetica").fillColor("#333").text(pdfSafe(value), { width: contentWidth(doc) });
+    doc.moveDown(0.3);
+  }
+}
+
+function coverPage(doc: Doc, plan: Plan, kind: PdfKind) {
+  doc.font("Helvetica").fontSize(10).fillColor("#666").text("ProfitBot", MARGIN, 120);
+  doc.moveDown(0.5);
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(26)
+    .fillColor("#111")
+    .text(kind === "plan" ? "Business Plan" : `${planShape(plan).days}-Day Marketing Calendar`);
+  doc.moveDown(0.6);
+  doc.font("Helvetica-Bold").fontSize(16).text(pdfSafe(plan.name || plan.idea));
+  if (plan.name) {
+    doc.moveDown(0.2);
+    doc.font("Helvetica").fontSize(11).fillColor("#444").text(pdfSafe(plan.idea));
+  }
+  doc.moveDown(0.4);
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor("#666")
+    .text(`Generated: ${new Date(plan.createdAt).toLocaleString("en-US")}`);
+
+  const filled = inputRows(plan);
+  if (filled.length) {
+    doc.moveDown(2);
+    heading(doc, "Inputs", 13);
+    fieldRows(doc, filled);
+  }
+
+  const kpis = kpiRows(plan);
+  if (kpis.length) {
+    doc.moveDown(1);
+    heading(doc, "KPIs", 13);
+    for (const k of kpis) {
+      ensureSpace(doc, 60);
+      doc.font("Helvetica-Bold").fontSize(11).fillColor("#111").text(pdfSafe(k.name), MARGIN);
+      doc.moveDown(0.2);
+      fieldRows(doc, k.rows);
+      doc.moveDown(0.3);
+    }
+  }
+}
+
+function reportSection(doc: Doc, plan: Plan) {
+  const sections = reportSections(plan);
+  if (!sections.length) return;
+  doc.addPage();
+  heading(doc, "Validation report", 18);
+  for (const s of sections) {
+    heading(doc, s.title, 12);
+    fieldRows(doc, s.rows);
+    if (s.text) paragraph(doc, s.text);
+    if (s.items.length) list(doc, s.items, "bullet");
+  }
+}
+
+function stepSection(doc: Doc, plan: Plan, idx: number) {
+  const s = plan.steps[idx];
+  doc.addPage();
+  heading(doc, `Step ${idx + 1}: ${s.title}`, 18);
+  if (s.summary) paragraph(doc, s.summary);
+
+  if (s.whatThisDoes.length) {
+    heading(doc, "What this step does", 12);
+    list(doc, s.whatThisDoes, "bullet");
+  }
+  if (s.howTo.length) {
+    heading(doc, "How to do it (checklist)", 12);
+    list(doc, s.howTo, "checkbox");
+  }
+  if (s.output) {
+    heading(doc, "Output", 12);
+    paragraph(doc, s.output);
+  }
+
+  const draft = plan.drafts?.[idx];
+  if (draft) {
+    heading(doc, draftTitle(draft), 12);
+    for (const section of draft.sections) {
+      if (section.heading) heading(doc, section.heading, 10);
+      if (section.body) paragraph(doc, section.body);
+    }
+  }
+}
+
+function calendarTable(doc: Doc, plan: Plan, checks: Checks) {
+  const days: Day[] = planDays(plan);
+  doc.addPage();
+  heading(doc, calendarTitle(plan), 18);
+
+  const width = contentWidth(doc);
+  const cols = [36, 78, 120, width - 36 - 78 - 120];
+  const pad = 5;
+  const taskIndent = BOX + 6;
+
+  const header = () => {
+    const y = doc.y;
+    doc.save().rect(MARGIN, y, width, 18).fill("#eeeeee").restore();
+    doc.font("Helvetica-Bold").fontSize(9).fillColor("#111");
+    let x = MARGIN;
+    ["Day", "Date", "Focus", "Tasks"].forEach((h, c) => {
+      doc.text(h, x + pad, y + 5, { width: cols[c] - pad * 2 });
+      x += cols[c];
+    });
+    doc.y = y + 18;
+  };
+
+  header();
+  doc.font("Helvetica").fontSize(9);
+
+  for (const d of days) {
+    const tasks = d.tasks.map(pdfSafe);
+    const taskWidth = cols[3] - pad * 2 - taskIndent;
+    const tasksHeight = tasks.reduce((h, t) => h + doc.heightOfString(t, { width: taskWidth }) + 3, 0);
+    const focusHeight = doc.heightOfString(pdfSafe(d.focus), { width: cols[2] - pad * 2 });
+    const rowHeight = Math.max(tasksHeight, focusHeight, 12) + pad * 2;
+
+    if (doc.y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+      header();
+      doc.font("Helvetica").fontSize(9);
+    }
+
+    const y = doc.y;
+    doc.save().lineWidth(0.5).strokeColor("#cccccc").rect(MARGIN, y, width, rowHeight).stroke().restore();
+    doc.fillColor("#111");
+    doc.text(String(d.day), MARGIN + pad, y + pad, { width: cols[0] - pad * 2 });
+    doc.text(pdfSafe(d.dateLabel), MARGIN + cols[0] + pad, y + pad, { width: cols[1] - pad * 2 });
+    doc.text(pdfSafe(d.focus), MARGIN + cols[0] + cols[1] + pad, y + pad, {
+      width: cols[2] - pad * 2,
+    });
+
+    let ty = y + pad;
+    const tx = MARGIN + cols[0] + cols[1] + cols[2] + pad;
+    tasks.forEach((t, i) => {
+      checkbox(doc, tx, ty + 1, !!checks[d.taskIds[i]]);
+      doc.text(t, tx + taskIndent, ty, { width: taskWidth });
+      ty += doc.heightOfString(t, { width: taskWidth }) + 3;
+    });
+
+    doc.y = y + rowHeight;
+  }
+}
+
+function pageNumbers(doc: Doc) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise start a new page.
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor("#888")
+      .text(`Page ${i + 1} of ${range.count}`, MARGIN, doc.page.height - 35, {
+        width: contentWidth(doc),
+        align: "center",
+      });
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+/** Renders the plan (cover, steps, calendar) or just the calendar to a PDF buffer. */
+export function renderPlanPdf(
+  plan: Plan,
+  kind: PdfKind,
+  checks: Checks = {}
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "LETTER",
+      margin: MARGIN,
+      bufferPages: true,
+      info: { Title: pdfSafe(plan.name || plan.idea), Creator: "ProfitBot" },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", (c: Buffer) => chunks.push(c));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    coverPage(doc, plan, kind);
+    if (kind === "plan") reportSection(doc, plan);
+    if (kind === "plan") plan.steps.forEach((_, idx) => stepSection(doc, plan, idx));
+    calendarTable(doc, plan, checks);
+    pageNumbers(doc);
+    doc.end();
+  });
+}
@@ -0,0 +1,649 @@
+// Shared plan model used by the generate route, the main page and the calendar.
+
+export type Inputs = {
+  targetCustomer?: string;
+  coreOffer?: string;
+  differentiator?: string;
+  pricePoint?: string;
+  geography?: string;
+  goal?: string;          // what the sprint should achieve over the plan's horizon
+  notes?: string;
+};
+
+export type PlanStep = {
+  title: string;
+  summary: string;
+  whatThisDoes: string[]; // explanation bullets (or short paragraphs)
+  howTo: string[];        // checklist bullets
+  output: string;         // tangible deliverable
+};
+
+export type CalendarDay = {
+  day: number;            // 1..shape.days
+  title: string;
+  tasks: string[];
+  taskIds: string[];      // stable id per task, in the same order as `tasks`
+  step?: number;          // 1-based step this day works on, when the model says
+};
+
+// One task with its id, as edited in the calendar.
+export type DayTask = { id: string; text: string };
+
+// A replaced step and the calendar days that belonged to it, kept for restore.
+export type StepVersion = {
+  step: PlanStep;
+  days: CalendarDay[];
+  replacedAt: string;
+};
+
+// When the sprint runs. Day 1 lands on `startDate` (or the next working day)
+// and later days skip the chosen weekdays and dates.
+export type Schedule = {
+  startDate: string;      // YYYY-MM-DD
+  skipWeekdays: number[]; // 0 = Sunday … 6 = Saturday
+  skipDates: string[];    // YYYY-MM-DD
+};
+
+// How the route got to this plan: repair round-trips, rule violations left
+// after repairs, and which fields were filled with defaults.
+export type PlanValidation = {
+  repairs: number;
+  violations: string[];
+  fallbacks: string[];
+  // When the model reply was generated, for plans served from the plan cache.
+  cachedAt?: string;
+};
+
+// Model usage charged to a plan, summed over its generation, step rewrites,
+// drafts, reports and coach chats. `cost` is in US dollars from the server's
+// price table; `estimated` is set once any call's tokens were guessed.
+export type PlanUsage = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  estimated?: boolean;
+};
+
+// A measurable target for the sprint goal, e.g. 20 qualified leads by the last day.
+export type Kpi = {
+  id: string;
+  name: string;
+  unit: string;           // "leads", "calls", "$"
+  target: number;         // total to reach by the end of the sprint
+  actuals: Record<number, number>; // amount logged per sprint day (1-based)
+};
+
+// "Validate first" report on the idea itself, built from the same inputs as the plan.
+export type ValidationReport = {
+  icp: {
+    summary: string;      // who the ideal customer is, in a sentence or two
+    traits: string[];
+    whereToFind: string[];
+  };
+  competitors: { name: string; kind: "direct" | "alternative"; note: string }[];
+  pricing: {
+    assessment: "too low" | "fair" | "too high" | "unknown"; // of inputs.pricePoint
+    summary: string;
+    benchmarks: string[];
+  };
+  assumptions: { assumption: string; test: string; passIf: string }[];
+  verdict: { decision: "go" | "no-go"; reason: string };
+  createdAt: string;
+};
+
+export const DRAFT_KINDS = ["landing-page", "email-sequence", "social-posts", "faq", "script", "document"] as const;
+export type DraftKind = (typeof DRAFT_KINDS)[number];
+
+export const DRAFT_KIND_LABELS: Record<DraftKind, string> = {
+  "landing-page": "Landing page",
+  "email-sequence": "Email sequence",
+  "social-posts": "Social posts",
+  faq: "FAQ",
+  script: "Script",
+  document: "Document",
+};
+
+export const MAX_DRAFT_SECTIONS = 12;
+
+// A step's `output` written out as a usable artifact. Sections are the page
+// sections, emails, posts or questions, depending on the kind.
+export type StepDraft = {
+  kind: DraftKind;
+  title: string;
+  sections: { heading: string; body: string }[];
+  createdAt: string;
+};
+
+// End-of-sprint review of a plan, sent along when asking for the next sprint.
+export type Retrospective = {
+  done: string[];         // task texts that were checked
+  skipped: string[];      // task texts left unchecked
+  kpis: { name: string; unit: string; target: number; actual: number }[];
+  notes: string;          // what worked and what did not, in the user's words
+  createdAt: string;
+};
+
+// How many steps and calendar days a plan has, chosen per generation.
+export type PlanShape = {
+  steps: number;          // one of STEP_COUNTS
+  days: number;           // one of HORIZONS
+};
+
+export type Plan = {
+  id: string;
+  createdAt: string;
+  idea: string;
+  inputs: Inputs;
+  steps: PlanStep[];
+  shape?: PlanShape;
+  template?: string;      // strategy template id, see lib/templates
+  kpis?: Kpi[];
+  validationReport?: ValidationReport;
+  // Sprint chain: the plan this one follows on from and its place in the chain.
+  parentId?: string;
+  sprint?: number;        // 1-based; plans without a parent are sprint 1
+  retro?: Retrospective;  // filled in when this sprint was reviewed
+  // Missing on plans saved before the calendar was carried through storage.
+  calendarDays?: CalendarDay[];
+  validation?: PlanValidation;
+  usage?: PlanUsage;
+  // Earlier versions of each step, oldest first, indexed like `steps`.
+  stepHistory?: StepVersion[][];
+  // Drafted deliverables, indexed like `steps`; null where nothing was drafted.
+  drafts?: (StepDraft | null)[];
+  schedule?: Schedule;
+  // Sections changed by hand, e.g. "steps.0.howTo" or "days.3".
+  editedFields?: string[];
+  // Library metadata, set in the browser after generation.
+  name?: string;
+  pinned?: boolean;
+  updatedAt?: string;
+};
+
+// Calendar checkbox state by task id. The value is when the task was checked,
+// as an ISO time; checks saved before that was recorded are `true`.
+export type Checks = Record<string, string | true>;
+
+// NDJSON events sent by POST /api/generate when the body asks for `stream: true`.
+export type PlanStreamEvent =
+  | { type: "step"; index: number; step: PlanStep }
+  | { type: "calendar"; calendarDays: CalendarDay[] }
+  | { type: "plan"; plan: Plan }
+  | { type: "error"; error: string; raw?: string };
+
+export const INPUT_KEYS: (keyof Inputs)[] = [
+  "targetCustomer",
+  "coreOffer",
+  "differentiator",
+  "pricePoint",
+  "geography",
+  "goal",
+  "notes",
+];
+
+export const STEP_COUNTS = [3, 4, 5, 6, 7];
+export const HORIZONS = [7, 14, 30, 90];
+// Every plan saved before the shape was configurable is 3 steps over 14 days.
+export const DEFAULT_SHAPE: PlanShape = { steps: 3, days: 14 };
+
+export function planShape(plan: Pick<Plan, "shape"> | null): PlanShape {
+  return plan?.shape ?? DEFAULT_SHAPE;
+}
+
+/** "14-day", "90-day": for labels such as "14-day goal". */
+export function horizonLabel(days: number) {
+  return `${days}-day`;
+}
+
+export function formatCost(usd: number) {
+  return `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+// e.g. "4 model calls · 12,480 tokens · $0.0083"
+export function usageLabel(usage: PlanUsage) {
+  const tokens = usage.promptTokens + usage.completionTokens;
+  return [
+    `${usage.calls} model call${usage.calls === 1 ? "" : "s"}`,
+    `${tokens.toLocaleString("en-US")} tokens${usage.estimated ? " (some estimated)" : ""}`,
+    formatCost(usage.cost),
+  ].join(" · ");
+}
+
+type Raw = Record<string, unknown>;
+
+function asObj(v: unknown): Raw {
+  return v && typeof v === "object" ? (v as Raw) : {};
+}
+
+export function uid() {
+  return `plan_${Date.now()}_${Math.random().toString(16).slice(2)}`;
+}
+
+export function newTaskId() {
+  return `t_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Id for a task stored without one. It is the position-based key checks used
+ * before tasks had ids, so progress saved back then still lines up. New plans
+ * never use it: model calendars get `newTaskId`s in `withNewTaskIds`.
+ */
+export function legacyTaskId(day: number, idx: number) {
+  return `d${day}_t${idx}`;
+}
+
+/** Id of the stand-in task an empty day shows; no stored task can have it. */
+export function placeholderTaskId(day: number) {
+  return `placeholder:d${day}`;
+}
+
+/** The days with a fresh id for every task, for a calendar that just came from the model. */
+export function withNewTaskIds(days: CalendarDay[]): CalendarDay[] {
+  return days.map((d) => ({ ...d, taskIds: d.tasks.map(() => newTaskId()) }));
+}
+
+export function dayTasks(day: Pick<CalendarDay, "tasks" | "taskIds">): DayTask[] {
+  return day.tasks.map((text, i) => ({ id: day.taskIds[i], text }));
+}
+
+export function safeStr(v: unknown) {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+export function toStrArray(v: unknown): string[] {
+  if (Array.isArray(v)) return v.map((x) => safeStr(x)).filter(Boolean);
+
+  if (typeof v === "string")
+    return v
+      .split("\n")
+      .map((x) => x.trim())
+      .filter(Boolean)
+      .map((x) => x.replace(/^\s*[-•\d.)]+\s*/, "").trim());
+
+  return [];
+}
+
+export function emptyStep(n: number): PlanStep {
+  return { title: `Step ${n}`, summary: "", whatThisDoes: [], howTo: [], output: "" };
+}
+
+export function coerceInputs(raw: unknown, fallback: Inputs = {}): Inputs {
+  const r = asObj(raw);
+  const nested = asObj(r.inputs);
+  const inputs: Inputs = {};
+  for (const k of INPUT_KEYS) {
+    inputs[k] = safeStr(nested[k]) || safeStr(r[k]) || fallback[k] || "";
+  }
+  // Saved before the goal followed the plan's horizon.
+  inputs.goal ||= safeStr(nested.goal14Day) || safeStr(r.goal14Day);
+  return inputs;
+}
+
+/** Normalizes one step. Fields that had to be defaulted are pushed onto `fallbacks`. */
+export function coerceStep(raw: unknown, i: number, fallbacks: string[] = []): PlanStep {
+  const s = asObj(raw);
+  const step: PlanStep = {
+    title: safeStr(s.title),
+    summary: safeStr(s.summary),
+    whatThisDoes: toStrArray(s.whatThisDoes ?? s.what_this_does ?? s.what ?? s.explain),
+    howTo: toStrArray(s.howTo ?? s.how_to ?? s.checklist),
+    output: safeStr(s.output ?? s.deliverable),
+  };
+
+  const where = `step ${i + 1}`;
+  if (!step.title) {
+    step.title = `Step ${i + 1}`;
+    fallbacks.push(`${where} title`);
+  }
+  if (!step.summary) fallbacks.push(`${where} summary`);
+  if (!step.whatThisDoes.length) fallbacks.push(`${where} whatThisDoes`);
+  if (!step.howTo.length) fallbacks.push(`${where} howTo`);
+  if (!step.output) fallbacks.push(`${where} output`);
+
+  return step;
+}
+
+// Tasks and their ids are read as pairs so dropping an empty task keeps them aligned.
+function coerceTasks(rawTasks: unknown, rawIds: unknown, day: number) {
+  if (!Array.isArray(rawTasks) || !Array.isArray(rawIds) || rawIds.length !== rawTasks.length) {
+    const tasks = toStrArray(rawTasks);
+    return { tasks, taskIds: tasks.map((_, i) => legacyTaskId(day, i)) };
+  }
+  const tasks: string[] = [];
+  const taskIds: string[] = [];
+  rawTasks.forEach((t, i) => {
+    const text = safeStr(t);
+    if (!text) return;
+    tasks.push(text);
+    taskIds.push(safeStr(rawIds[i]) || legacyTaskId(day, i));
+  });
+  return { tasks, taskIds };
+}
+
+/** Gives a fresh id to any task whose id is already used earlier in the calendar. */
+function dedupeTaskIds(days: CalendarDay[]): CalendarDay[] {
+  const seen = new Set<string>();
+  return days.map((d) => {
+    const taskIds = d.taskIds.map((id) => (seen.has(id) ? newTaskId() : id));
+    taskIds.forEach((id) => seen.add(id));
+    return { ...d, taskIds };
+  });
+}
+
+export function coerceCalendarDays(raw: unknown, maxDays = 90): CalendarDay[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const days = raw
+    .filter((d) => d && typeof d === "object")
+    .slice(0, maxDays)
+    .map((d, idx) => {
+      const o = asObj(d);
+      const day: CalendarDay = {
+        day: typeof o.day === "number" ? o.day : idx + 1,
+        title: safeStr(o.title) || `Day ${idx + 1}`,
+        // The calendar shows days by position, so that is what legacy ids use too.
+        ...coerceTasks(o.tasks, o.taskIds, idx + 1),
+      };
+      if (typeof o.step === "number" && o.step >= 1) day.step = Math.floor(o.step);
+      return day;
+    });
+  return days.length ? days : undefined;
+}
+
+/** Pads a (possibly short) calendar out to `count` days with a generic task. */
+export function padCalendarDays(
+  days: CalendarDay[] = [],
+  fallbacks: string[] = [],
+  count = DEFAULT_SHAPE.days
+): CalendarDay[] {
+  const out = days.slice(0, count);
+  out.forEach((d, i) => {
+    if (!d.tasks.length) fallbacks.push(`day ${i + 1} tasks`);
+  });
+  while (out.length < count) {
+    const n = out.length + 1;
+    fallbacks.push(`day ${n}`);
+    out.push({
+      day: n,
+      title: `Day ${n}`,
+      tasks: ["Do 30–60 minutes of execution based on your Step plan."],
+      taskIds: [newTaskId()],
+    });
+  }
+  return out;
+}
+
+function coerceStepHistory(raw: unknown): StepVersion[][] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.map((versions, i) =>
+    (Array.isArray(versions) ? versions : []).map((v) => {
+      const o = asObj(v);
+      return {
+        step: coerceStep(o.step, i),
+        days: coerceCalendarDays(o.days) ?? [],
+        replacedAt: safeStr(o.replacedAt),
+      };
+    })
+  );
+}
+
+export function coerceDraft(raw: unknown): StepDraft | null {
+  if (!raw || typeof raw !== "object") return null;
+  const o = asObj(raw);
+  const sections = (Array.isArray(o.sections) ? o.sections : [])
+    .map((s) => ({ heading: safeStr(asObj(s).heading), body: safeStr(asObj(s).body) }))
+    .filter((s) => s.heading || s.body)
+    .slice(0, MAX_DRAFT_SECTIONS);
+  if (!sections.length) return null;
+  const kind = DRAFT_KINDS.find((k) => k === safeStr(o.kind)) ?? "document";
+  return {
+    kind,
+    title: safeStr(o.title) || DRAFT_KIND_LABELS[kind],
+    sections,
+    createdAt: safeStr(o.createdAt) || new Date().toISOString(),
+  };
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function coerceSchedule(raw: unknown): Schedule | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const o = asObj(raw);
+  const startDate = safeStr(o.startDate);
+  if (!ISO_DATE.test(startDate)) return undefined;
+  const weekdays = Array.isArray(o.skipWeekdays) ? o.skipWeekdays : [];
+  return {
+    startDate,
+    skipWeekdays: [
+      ...new Set(weekdays.filter((n): n is number => Number.isInteger(n) && n >= 0 && n <= 6)),
+    ].sort((a, b) => a - b),
+    skipDates: toStrArray(o.skipDates).filter((d) => ISO_DATE.test(d)),
+  };
+}
+
+// Numbers the model may send as text: "20", "$2,000", "5 calls".
+function toNumber(v: unknown): number {
+  if (typeof v === "number") return v;
+  if (typeof v !== "string") return NaN;
+  const m = v.replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+  return m ? Number(m[0]) : NaN;
+}
+
+export const MAX_KPIS = 4;
+
+const PRICE_ASSESSMENTS = ["too low", "fair", "too high", "unknown"] as const;
+
+export function coerceReport(raw: unknown): ValidationReport | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const o = asObj(raw);
+  const icp = asObj(o.icp);
+  const pricing = asObj(o.pricing);
+  const verdict = asObj(o.verdict);
+  const assessment = safeStr(pricing.assessment).toLowerCase();
+  const decision = safeStr(verdict.decision).toLowerCase().replace(/\s+/g, "-");
+
+  const competitors = (Array.isArray(o.competitors) ? o.competitors : []).flatMap((c) => {
+    const co = asObj(c);
+    const name = safeStr(co.name);
+    if (!name) return [];
+    const kind: "direct" | "alternative" = safeStr(co.kind) === "alternative" ? "alternative" : "direct";
+    return [{ name, kind, note: safeStr(co.note) }];
+  });
+  const assumptions = (Array.isArray(o.assumptions) ? o.assumptions : []).flatMap((a) => {
+    const ao = asObj(a);
+    const assumption = safeStr(ao.assumption);
+    return assumption ? [{ assumption, test: safeStr(ao.test), passIf: safeStr(ao.passIf) }] : [];
+  });
+
+  return {
+    icp: {
+      summary: safeStr(icp.summary),
+      traits: toStrArray(icp.traits),
+      whereToFind: toStrArray(icp.whereToFind),
+    },
+    competitors,
+    pricing: {
+      assessment: PRICE_ASSESSMENTS.find((a) => a === assessment) ?? "unknown",
+      summary: safeStr(pricing.summary),
+      benchmarks: toStrArray(pricing.benchmarks),
+    },
+    assumptions,
+    verdict: { decision: decision === "no-go" ? "no-go" : "go", reason: safeStr(verdict.reason) },
+    createdAt: safeStr(o.createdAt) || new Date().toISOString(),
+  };
+}
+
+// Caps for retrospective text sent to the model.
+export const RETRO_MAX_TASKS = 200;
+export const RETRO_MAX_NOTES = 4000;
+
+export function coerceRetro(raw: unknown): Retrospective | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const o = asObj(raw);
+  const kpis = (Array.isArray(o.kpis) ? o.kpis : []).slice(0, MAX_KPIS).flatMap((k) => {
+    const ko = asObj(k);
+    const name = safeStr(ko.name);
+    const target = toNumber(ko.target);
+    const actual = toNumber(ko.actual);
+    if (!name || !Number.isFinite(target) || !Number.isFinite(actual)) return [];
+    return [{ name, unit: safeStr(ko.unit), target, actual }];
+  });
+  return {
+    done: toStrArray(o.done).slice(0, RETRO_MAX_TASKS),
+    skipped: toStrArray(o.skipped).slice(0, RETRO_MAX_TASKS),
+    kpis,
+    notes: safeStr(o.notes).slice(0, RETRO_MAX_NOTES),
+    createdAt: safeStr(o.createdAt) || new Date().toISOString(),
+  };
+}
+
+export function coerceKpis(raw: unknown, maxDays = 90): Kpi[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const kpis: Kpi[] = [];
+  raw.forEach((k, i) => {
+    const o = asObj(k);
+    const name = safeStr(o.name);
+    const target = toNumber(o.target);
+    if (!name || !(target > 0)) return;
+
+    const actuals: Record<number, number> = {};
+    for (const [day, v] of Object.entries(asObj(o.actuals))) {
+      const n = Number(day);
+      const amount = toNumber(v);
+      if (Number.isInteger(n) && n >= 1 && n <= maxDays && Number.isFinite(amount)) actuals[n] = amount;
+    }
+    kpis.push({ id: safeStr(o.id) || `kpi_${i + 1}`, name, unit: safeStr(o.unit), target, actuals });
+  });
+  return kpis.length ? kpis.slice(0, MAX_KPIS) : undefined;
+}
+
+function nearest(options: number[], n: number) {
+  return options.reduce((best, o) => (Math.abs(o - n) < Math.abs(best - n) ? o : best));
+}
+
+/**
+ * Reads a stored shape, snapping to the allowed values. Without one the shape
+ * is taken from the content, so imported and older plans keep what they have.
+ */
+export function coerceShape(raw: unknown, stepCount = 0, dayCount = 0): PlanShape {
+  const o = asObj(raw);
+  const steps = typeof o.steps === "number" ? o.steps : stepCount || DEFAULT_SHAPE.steps;
+  const days = typeof o.days === "number" ? o.days : dayCount || DEFAULT_SHAPE.days;
+  return {
+    steps: nearest(STEP_COUNTS, steps),
+    days: HORIZONS.find((h) => h >= days) ?? HORIZONS[HORIZONS.length - 1],
+  };
+}
+
+function coerceValidation(raw: unknown): PlanValidation | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const v = asObj(raw);
+  return {
+    repairs: typeof v.repairs === "number" ? v.repairs : 0,
+    violations: toStrArray(v.violations),
+    fallbacks: toStrArray(v.fallbacks),
+    ...(safeStr(v.cachedAt) && { cachedAt: safeStr(v.cachedAt) }),
+  };
+}
+
+export function coerceUsage(raw: unknown): PlanUsage | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const o = asObj(raw);
+  const n = (v: unknown) => (typeof v === "number" && Number.isFinite(v) && v > 0 ? v : 0);
+  const usage: PlanUsage = {
+    calls: Math.round(n(o.calls)),
+    promptTokens: Math.round(n(o.promptTokens)),
+    completionTokens: Math.round(n(o.completionTokens)),
+    cost: n(o.cost),
+  };
+  if (o.estimated === true) usage.estimated = true;
+  return usage.calls ? usage : undefined;
+}
+
+export function addUsage(a: PlanUsage | undefined, b: PlanUsage | undefined): PlanUsage | undefined {
+  if (!a || !b) return a ?? b;
+  const sum: PlanUsage = {
+    calls: a.calls + b.calls,
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    cost: a.cost + b.cost,
+  };
+  if (a.estimated || b.estimated) sum.estimated = true;
+  return sum;
+}
+
+/** Adds the usage a route returned for a call about `plan` to the plan's total. */
+export function withUsage(plan: Plan, raw: unknown): Plan {
+  const usage = addUsage(plan.usage, coerceUsage(raw));
+  return usage ? { ...plan, usage } : plan;
+}
+
+export function coercePlan(
+  raw: unknown,
+  ideaFallback: string,
+  inputsFallback: Inputs,
+  fallbacks: string[] = []
+): Plan {
+  const r = asObj(raw);
+
+  const stepsRaw = Array.isArray(r.steps) ? r.steps : [];
+  const daysRaw = r.calendarDays ?? r.calendar_days;
+  const shape = coerceShape(r.shape, stepsRaw.length, Array.isArray(daysRaw) ? daysRaw.length : 0);
+  const steps: PlanStep[] = stepsRaw.slice(0, shape.steps).map((s, i) => coerceStep(s, i, fallbacks));
+
+  // fallback if model returns weak structure
+  while (steps.length < shape.steps) {
+    fallbacks.push(`step ${steps.length + 1}`);
+    steps.push(emptyStep(steps.length + 1));
+  }
+
+  const plan: Plan = {
+    id: safeStr(r.id) || uid(),
+    createdAt: safeStr(r.createdAt) || new Date().toISOString(),
+    idea: safeStr(r.idea) || ideaFallback,
+    inputs: coerceInputs(r, inputsFallback),
+    steps,
+    shape,
+  };
+
+  const calendarDays = coerceCalendarDays(daysRaw, shape.days);
+  if (calendarDays) plan.calendarDays = dedupeTaskIds(calendarDays);
+
+  const kpis = coerceKpis(r.kpis, shape.days);
+  if (kpis) plan.kpis = kpis;
+
+  const validationReport = coerceReport(r.validationReport);
+  if (validationReport) plan.validationReport = validationReport;
+
+  const retro = coerceRetro(r.retro);
+  if (retro) plan.retro = retro;
+  if (safeStr(r.parentId)) plan.parentId = safeStr(r.parentId);
+  if (typeof r.sprint === "number" && Number.isInteger(r.sprint) && r.sprint > 1) plan.sprint = r.sprint;
+
+  const validation = coerceValidation(r.validation);
+  if (validation) plan.validation = validation;
+
+  const usage = coerceUsage(r.usage);
+  if (usage) plan.usage = usage;
+
+  const stepHistory = coerceStepHistory(r.stepHistory);
+  if (stepHistory?.some((v) => v.length)) plan.stepHistory = stepHistory;
+
+  if (Array.isArray(r.drafts)) {
+    const drafts = plan.steps.map((_, i) => coerceDraft((r.drafts as unknown[])[i]));
+    if (drafts.some(Boolean)) plan.drafts = drafts;
+  }
+
+  const schedule = coerceSchedule(r.schedule);
+  if (schedule) plan.schedule = schedule;
+
+  const editedFields = toStrArray(r.editedFields);
+  if (editedFields.length) plan.editedFields = editedFields;
+
+  if (safeStr(r.template)) plan.template = safeStr(r.template);
+  if (safeStr(r.name)) plan.name = safeStr(r.name);
+  if (r.pinned === true) plan.pinned = true;
+  if (safeStr(r.updatedAt)) plan.updatedAt = safeStr(r.updatedAt);
+
+  return plan;
+}
@@ -0,0 +1,113 @@
+import { createHash } from "node:crypto";
+import type { ValidatedResult } from "@/lib/generate";
+import type { LLMProvider } from "@/lib/llm";
+import type { Inputs, PlanShape } from "@/lib/plan";
+import { PROMPT_VERSION } from "@/lib/prompt";
+
+// Oldest entries are dropped past this many cached plans.
+const MAX_ENTRIES = 200;
+
+export type CacheStatus = "hit" | "shared" | "miss";
+
+type Entry = { result: ValidatedResult; createdAt: string; expiresAt: number };
+
+const cache = new Map<string, Entry>();
+const inFlight = new Map<string, Promise<Entry>>();
+
+/** PLAN_CACHE_TTL_SECONDS, default one hour; 0 turns the cache off (in-flight sharing stays on). */
+export function cacheTtlMs(env: Record<string, string | undefined> = process.env) {
+  const v = env.PLAN_CACHE_TTL_SECONDS;
+  const n = Number(v);
+  return v?.trim() && Number.isInteger(n) && n >= 0 ? n * 1000 : 3_600_000;
+}
+
+function normalize(s: string | undefined) {
+  return (s || "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Identifies a plan request: the idea and inputs with case and spacing
+ * ignored, the plan shape and template, the prompt version and the model.
+ */
+export function planCacheKey(
+  provider: LLMProvider,
+  idea: string,
+  inputs: Inputs,
+  shape: PlanShape,
+  templateId: string
+) {
+  const fields = Object.fromEntries(
+    (Object.keys(inputs) as (keyof Inputs)[]).sort().map((k) => [k, normalize(inputs[k])])
+  );
+  const key = JSON.stringify({
+    v: PROMPT_VERSION,
+    provider: provider.name,
+    model: provider.model,
+    idea: normalize(idea),
+    inputs: fields,
+    shape: [shape.steps, shape.days],
+    template: templateId,
+  });
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export type CachedPlan = { status: "hit" | "shared"; result: Promise<ValidatedResult>; createdAt?: string };
+
+/**
+ * A cached result for `key`, or the pending call an identical request already
+ * started. Null means the caller should make the model call itself.
+ */
+export function lookupPlan(key: string): CachedPlan | null {
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    return { status: "hit", result: Promise.resolve(entry.result), createdAt: entry.createdAt };
+  }
+  if (entry) cache.delete(key);
+
+  const pending = inFlight.get(key);
+  return pending ? { status: "shared", result: pending.then((e) => e.result) } : null;
+}
+
+export type PlanCall = {
+  // `cacheable` is false for replies that needed defaults or still broke the schema.
+  done(result: ValidatedResult, cacheable: boolean): void;
+  fail(err: unknown): void;
+};
+
+/**
+ * Registers a model call for `key` so identical requests wait on it instead
+ * of starting their own. The caller must end it with `done` or `fail`.
+ */
+export function beginPlan(key: string): PlanCall {
+  let resolve!: (e: Entry) => void;
+  let reject!: (err: unknown) => void;
+  const pending = new Promise<Entry>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Nobody may be waiting; a failure is reported to the caller that made the call.
+  pending.catch(() => {});
+  inFlight.set(key, pending);
+
+  const settle = () => {
+    // A forced-fresh call may have replaced this one in the meantime.
+    if (inFlight.get(key) === pending) inFlight.delete(key);
+  };
+
+  return {
+    done(result, cacheable) {
+      const entry = { result, createdAt: new Date().toISOString(), expiresAt: Date.now() + cacheTtlMs() };
+      if (cacheable && cacheTtlMs() > 0) {
+        cache.delete(key);
+        cache.set(key, entry);
+        while (cache.size > MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+      }
+      settle();
+      resolve(entry);
+    },
+    fail(err) {
+      settle();
+      reject(err);
+    },
+  };
+}
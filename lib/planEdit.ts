@@ -0,0 +1,131 @@
+// Hand edits to a saved plan. Every edited section is recorded in
+// `plan.editedFields` so the UI can mark it as modified.
+
+import { buildDays } from "@/lib/calendar";
+import {
+  dayTasks,
+  type CalendarDay,
+  type DayTask,
+  type Plan,
+  type PlanStep,
+  type StepDraft,
+} from "@/lib/plan";
+
+export const STEP_FIELDS: (keyof PlanStep)[] = ["title", "summary", "whatThisDoes", "howTo", "output"];
+
+export function stepFieldKey(index: number, field: keyof PlanStep) {
+  return `steps.${index}.${field}`;
+}
+
+export function dayKey(day: number) {
+  return `days.${day}`;
+}
+
+export function draftKey(index: number) {
+  return `drafts.${index}`;
+}
+
+export function isEdited(plan: Plan, key: string) {
+  return !!plan.editedFields?.includes(key);
+}
+
+function markEdited(plan: Plan, keys: string[]): Plan {
+  if (!keys.length) return plan;
+  const edited = new Set(plan.editedFields ?? []);
+  keys.forEach((k) => edited.add(k));
+  return { ...plan, editedFields: [...edited] };
+}
+
+/** Drops markers for content that was replaced by the model. */
+export function clearEdited(plan: Plan, keys: string[]): Plan {
+  if (!plan.editedFields?.length) return plan;
+  const editedFields = plan.editedFields.filter((k) => !keys.includes(k));
+  return { ...plan, editedFields };
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Saves a hand-edited step, marking each field that actually changed. */
+export function editStep(plan: Plan, index: number, step: PlanStep): Plan {
+  const before = plan.steps[index];
+  const clean: PlanStep = {
+    title: step.title.trim() || `Step ${index + 1}`,
+    summary: step.summary.trim(),
+    whatThisDoes: step.whatThisDoes.map((b) => b.trim()).filter(Boolean),
+    howTo: step.howTo.map((b) => b.trim()).filter(Boolean),
+    output: step.output.trim(),
+  };
+  const changed = STEP_FIELDS.filter((f) => !sameValue(before?.[f], clean[f]));
+  const steps = plan.steps.map((s, i) => (i === index ? clean : s));
+  return markEdited({ ...plan, steps }, changed.map((f) => stepFieldKey(index, f)));
+}
+
+/**
+ * Older plans have no stored calendar; the first calendar edit freezes the
+ * derived days into the plan so there is something to edit.
+ */
+export function ensureCalendarDays(plan: Plan): CalendarDay[] {
+  if (plan.calendarDays?.length) return plan.calendarDays;
+  return buildDays(plan).map((d) => ({ day: d.day, title: d.focus, tasks: d.tasks, taskIds: d.taskIds }));
+}
+
+/**
+ * Replaces the task lists of the given days (1-based), marking those days.
+ * Tasks keep their ids through rewording, reordering and moves, so their
+ * checkbox state follows them.
+ */
+export function editDayTasks(plan: Plan, tasksByDay: Record<number, DayTask[]>): Plan {
+  const days = ensureCalendarDays(plan);
+  const changed: string[] = [];
+  const calendarDays = days.map((d, i) => {
+    const next = tasksByDay[i + 1];
+    if (!next) return d;
+    const kept = next.map((t) => ({ ...t, text: t.text.trim() })).filter((t) => t.text);
+    const tasks = kept.map((t) => t.text);
+    const taskIds = kept.map((t) => t.id);
+    if (sameValue(tasks, d.tasks) && sameValue(taskIds, d.taskIds)) return d;
+    changed.push(dayKey(i + 1));
+    return { ...d, tasks, taskIds };
+  });
+  return markEdited({ ...plan, calendarDays }, changed);
+}
+
+/** Moves one task to the end of another day's list. */
+export function moveTask(plan: Plan, fromDay: number, idx: number, toDay: number): Plan {
+  const days = ensureCalendarDays(plan);
+  const from = days[fromDay - 1];
+  const to = days[toDay - 1];
+  if (!from || !to || fromDay === toDay || !from.tasks[idx]) return plan;
+
+  const moving = dayTasks(from);
+  return editDayTasks(plan, {
+    [fromDay]: moving.filter((_, i) => i !== idx),
+    [toDay]: [...dayTasks(to), moving[idx]],
+  });
+}
+
+function withDraft(plan: Plan, index: number, draft: StepDraft | null): Plan {
+  const drafts = plan.steps.map((_, i) => (i === index ? draft : plan.drafts?.[i] ?? null));
+  return { ...plan, drafts: drafts.some(Boolean) ? drafts : undefined };
+}
+
+/** Stores a freshly generated draft for a step (or removes it with null). */
+export function replaceDraft(plan: Plan, index: number, draft: StepDraft | null): Plan {
+  return clearEdited(withDraft(plan, index, draft), [draftKey(index)]);
+}
+
+/** Saves a hand-edited draft; empty sections are dropped, and a draft left with none is removed. */
+export function editDraft(plan: Plan, index: number, draft: StepDraft): Plan {
+  const clean: StepDraft = {
+    ...draft,
+    title: draft.title.trim() || plan.drafts?.[index]?.title || "Draft",
+    sections: draft.sections
+      .map((s) => ({ heading: s.heading.trim(), body: s.body.trim() }))
+      .filter((s) => s.heading || s.body),
+  };
+  if (!clean.sections.length) return replaceDraft(plan, index, null);
+  if (sameValue(plan.drafts?.[index], clean)) return plan;
+  return markEdited(withDraft(plan, index, clean), [draftKey(index)]);
+}
@@ -0,0 +1,129 @@
+// Sprint progress from a plan's calendar and its checkbox state: completion
+// overall, per step and per day, overdue days, streaks and a burndown.
+
+import { linkedDays, planDays, toIsoDate, type Day } from "@/lib/calendar";
+import type { Checks, Plan } from "@/lib/plan";
+
+export type StepProgress = { index: number; title: string; done: number; total: number };
+
+export type DayProgress = {
+  day: number;
+  date: string;
+  dateLabel: string;
+  done: number;
+  total: number;
+  overdue: boolean;        // scheduled before today and not finished
+  completedOn: number;     // tasks (from any day) checked on this date
+};
+
+export type BurndownPoint = {
+  day: number;
+  planned: number;         // tasks left if every day is finished on schedule
+  actual: number | null;   // tasks left at the end of this date; null for future dates
+};
+
+export type Progress = {
+  done: number;
+  total: number;
+  percent: number;
+  steps: StepProgress[];
+  days: DayProgress[];
+  overdue: number;
+  streak: number;          // scheduled days in a row, up to today, with a task checked
+  bestStreak: number;
+  burndown: BurndownPoint[];
+};
+
+export function progressPercent(done: number, total: number) {
+  return total ? Math.round((done / total) * 100) : 0;
+}
+
+/**
+ * The date a check counts towards. Checks saved before completion times were
+ * recorded count on the task's own scheduled date.
+ */
+function completedDate(at: string | true, day: Day) {
+  return at === true ? day.date : toIsoDate(new Date(at));
+}
+
+export function computeProgress(plan: Plan, checks: Checks, now = new Date()): Progress {
+  const calendar = planDays(plan);
+  const today = toIsoDate(now);
+
+  // Completions per date, from every checked task that still exists.
+  const perDate = new Map<string, number>();
+  for (const d of calendar) {
+    d.tasks.forEach((_, i) => {
+      const at = checks[d.taskIds[i]];
+      if (!at) return;
+      const date = completedDate(at, d);
+      perDate.set(date, (perDate.get(date) ?? 0) + 1);
+    });
+  }
+
+  const days: DayProgress[] = calendar.map((d) => {
+    const done = d.tasks.filter((_, i) => checks[d.taskIds[i]]).length;
+    return {
+      day: d.day,
+      date: d.date,
+      dateLabel: d.dateLabel,
+      done,
+      total: d.tasks.length,
+      overdue: d.date < today && done < d.tasks.length,
+      completedOn: perDate.get(d.date) ?? 0,
+    };
+  });
+
+  const byDay = new Map(days.map((d) => [d.day, d]));
+  const steps: StepProgress[] = plan.steps.map((s, index) => {
+    const linked = linkedDays(plan, index)
+      .map((n) => byDay.get(n))
+      .filter((d): d is DayProgress => !!d);
+    return {
+      index,
+      title: s.title,
+      done: linked.reduce((n, d) => n + d.done, 0),
+      total: linked.reduce((n, d) => n + d.total, 0),
+    };
+  });
+
+  const done = days.reduce((n, d) => n + d.done, 0);
+  const total = days.reduce((n, d) => n + d.total, 0);
+
+  // Streaks run over scheduled dates up to today; today only counts once something is done.
+  const past = days.filter((d) => d.date <= today);
+  let streak = 0;
+  for (let i = past.length - 1; i >= 0; i--) {
+    if (past[i].completedOn) streak++;
+    else if (past[i].date !== today) break;
+  }
+  let bestStreak = 0;
+  let run = 0;
+  for (const d of past) {
+    run = d.completedOn ? run + 1 : 0;
+    bestStreak = Math.max(bestStreak, run);
+  }
+
+  // Checks made before day 1 or on skipped dates count towards the next scheduled day.
+  let planned = total;
+  let completed = 0;
+  const dates = [...perDate.entries()].sort(([a], [b]) => a.localeCompare(b));
+  let next = 0;
+  const burndown = days.map((d) => {
+    planned -= d.total;
+    while (next < dates.length && dates[next][0] <= d.date) completed += dates[next++][1];
+    return { day: d.day, planned, actual: d.date <= today ? total - completed : null };
+  });
+
+  return {
+    done,
+    total,
+    percent: progressPercent(done, total),
+    steps,
+    days,
+    overdue: days.filter((d) => d.overdue).length,
+    streak,
+    bestStreak,
+    burndown,
+  };
+}
@@ -0,0 +1,471 @@
+import { planDays } from "@/lib/calendar";
+import { COACH_HISTORY_TURNS, stepForDay, type CoachMessage } from "@/lib/coach";
+import type { ChatMessage } from "@/lib/llm";
+import { formatKpi, kpiProgress } from "@/lib/kpi";
+import {
+  DRAFT_KINDS,
+  horizonLabel,
+  MAX_DRAFT_SECTIONS,
+  planShape,
+  type Checks,
+  type Inputs,
+  type Plan,
+  type PlanShape,
+  type Retrospective,
+} from "@/lib/plan";
+import { computeProgress } from "@/lib/progress";
+import { getTemplate, type StrategyTemplate } from "@/lib/templates";
+
+function inputsBlock(idea: string, inputs: Inputs, shape: PlanShape) {
+  return `
+Business idea: ${idea}
+
+Optional inputs:
+- Target customer: ${inputs.targetCustomer || "(not provided)"}
+- Core offer: ${inputs.coreOffer || "(not provided)"}
+- Differentiator: ${inputs.differentiator || "(not provided)"}
+- Price point: ${inputs.pricePoint || "(not provided)"}
+- Geography / market: ${inputs.geography || "(not provided)"}
+- ${horizonLabel(shape.days)} goal: ${inputs.goal || "(not provided)"}
+- Extra notes: ${inputs.notes || "(not provided)"}
+`.trim();
+}
+
+// The template's priorities, as a block for the system prompt.
+function emphasisBlock(template: StrategyTemplate) {
+  if (!template.emphasis.length) return "";
+  return `\nEmphasis for this kind of business:\n${template.emphasis.map((e) => `- ${e}`).join("\n")}\n`;
+}
+
+// What a full plan reply contains, shared by first and follow-on sprints.
+function planSpec(shape: PlanShape) {
+  return `
+Goal:
+- Create a ${shape.steps}-step plan where EACH step includes:
+  - title
+  - summary (1–2 sentences)
+  - whatThisDoes (2–5 explanation bullets, practical)
+  - howTo (6–10 actionable checklist bullets with specifics)
+  - output (one concrete deliverable)
+
+Also return a ${shape.days}-day calendar that adapts to the plan.
+Spread the days over the steps in order; every step gets at least one day.
+Each day includes:
+- day (1..${shape.days})
+- step (1..${shape.steps}, the step this day works on)
+- title
+- tasks (2–4 tasks, specific and doable)
+
+Also return 2–4 KPIs that measure progress toward the ${horizonLabel(shape.days)} goal
+(for example leads, booked calls, sales or revenue). Each KPI includes:
+- name
+- unit (what is counted, e.g. "leads" or "$")
+- target (a number to reach by day ${shape.days}, realistic for the goal and price point)
+`.trim();
+}
+
+const PLAN_REPLY = `
+{
+  "steps": [
+    {
+      "title": "string",
+      "summary": "string",
+      "whatThisDoes": ["string"],
+      "howTo": ["string"],
+      "output": "string"
+    }
+  ],
+  "calendarDays": [
+    { "day": 1, "step": 1, "title": "string", "tasks": ["string"] }
+  ],
+  "kpis": [
+    { "name": "string", "unit": "string", "target": 0 }
+  ]
+}
+`.trim();
+
+// Part of the plan cache key. Bump it when the plan prompt, a template's
+// wording or the reply shape changes so cached plans from the old prompt stop
+// being served.
+export const PROMPT_VERSION = 2;
+
+export function buildPlanMessages(
+  idea: string,
+  inputs: Inputs,
+  shape: PlanShape,
+  template: StrategyTemplate
+): ChatMessage[] {
+  const system = `
+${template.role}
+Return ONLY valid JSON. No markdown. No extra commentary.
+${emphasisBlock(template)}
+${planSpec(shape)}
+
+IMPORTANT: Make the plan and calendar specific to the business idea and the optional inputs.
+`;
+
+  const user = `
+${inputsBlock(idea, inputs, shape)}
+
+Plan shape: ${shape.steps} steps over ${shape.days} days
+
+Return JSON in this exact shape:
+${PLAN_REPLY}
+`;
+
+  return [
+    { role: "system", content: system.trim() },
+    { role: "user", content: user.trim() },
+  ];
+}
+
+/**
+ * Asks for a replacement for one step, with the rest of the plan as context.
+ * `dayNumbers` are the calendar days linked to that step.
+ */
+export function buildStepMessages(
+  plan: Plan,
+  index: number,
+  dayNumbers: number[],
+  instruction: string
+): ChatMessage[] {
+  const template = getTemplate(plan.template);
+  const system = `
+${template.role} You are revising one step of an existing plan.
+Return ONLY valid JSON. No markdown. No extra commentary.
+${emphasisBlock(template)}
+The replacement step includes:
+- title
+- summary (1–2 sentences)
+- whatThisDoes (2–5 explanation bullets, practical)
+- howTo (6–10 actionable checklist bullets with specifics)
+- output (one concrete deliverable)
+
+Also return new calendar days for the days that work on this step, in order.
+Each day includes day, step, title and tasks (2–4 tasks, specific and doable).
+
+Keep the step consistent with the other steps, which are not changing.
+`;
+
+  const shape = planShape(plan);
+  const others = plan.steps
+    .map((s, i) => (i === index ? null : { step: i + 1, ...s }))
+    .filter(Boolean);
+
+  const user = `
+${inputsBlock(plan.idea, plan.inputs, shape)}
+
+Plan shape: ${shape.steps} steps over ${shape.days} days
+
+Current plan (other steps stay as they are):
+${JSON.stringify(others, null, 2)}
+
+Step to replace: ${index + 1}
+Current version of that step:
+${JSON.stringify(plan.steps[index], null, 2)}
+
+Calendar days to rewrite: ${dayNumbers.join(", ") || "(none)"}
+
+${instruction ? `Instruction from the user: ${instruction}` : "Write a stronger, more specific version of this step."}
+
+Return JSON in this exact shape:
+{
+  "step": {
+    "title": "string",
+    "summary": "string",
+    "whatThisDoes": ["string"],
+    "howTo": ["string"],
+    "output": "string"
+  },
+  "calendarDays": [
+    { "day": ${dayNumbers[0] ?? 1}, "step": ${index + 1}, "title": "string", "tasks": ["string"] }
+  ]
+}
+`;
+
+  return [
+    { role: "system", content: system.trim() },
+    { role: "user", content: user.trim() },
+  ];
+}
+
+// Long task lists are cut so the prompt stays a sensible size.
+const RETRO_PROMPT_TASKS = 40;
+
+function taskList(tasks: string[]) {
+  if (!tasks.length) return "  (none)";
+  const shown = tasks.slice(0, RETRO_PROMPT_TASKS).map((t) => `  - ${t}`);
+  if (tasks.length > RETRO_PROMPT_TASKS) shown.push(`  - ...and ${tasks.length - RETRO_PROMPT_TASKS} more`);
+  return shown.join("\n");
+}
+
+function retroBlock(retro: Retrospective) {
+  const total = retro.done.length + retro.skipped.length;
+  const kpis = retro.kpis.length
+    ? retro.kpis.map((k) => `  - ${k.name}: ${formatKpi(k.actual, k.unit)} of ${formatKpi(k.target, k.unit)}`).join("\n")
+    : "  (no KPIs tracked)";
+  return `
+Retrospective of the sprint that just ended:
+- Tasks done (${retro.done.length} of ${total}):
+${taskList(retro.done)}
+- Tasks skipped (${retro.skipped.length} of ${total}):
+${taskList(retro.skipped)}
+- KPI results:
+${kpis}
+- Notes on what worked: ${retro.notes || "(none)"}
+`.trim();
+}
+
+/**
+ * Asks for the sprint after `plan`, with the finished plan and its
+ * retrospective as context. The reply has the same shape as a first plan.
+ */
+export function buildNextSprintMessages(plan: Plan, retro: Retrospective, sprint: number): ChatMessage[] {
+  const template = getTemplate(plan.template);
+  const shape = planShape(plan);
+  const system = `
+${template.role} You are planning the next sprint for a business that just finished one.
+Return ONLY valid JSON. No markdown. No extra commentary.
+${emphasisBlock(template)}
+${planSpec(shape)}
+
+Use the retrospective: keep and scale what worked, rework or drop what was skipped
+or did not move the KPIs, and set new KPI targets from the actual results.
+Do not repeat finished one-off work such as setting up the offer page.
+
+IMPORTANT: Make the plan and calendar specific to the business idea, the optional inputs and the retrospective.
+`;
+
+  const previous = {
+    steps: plan.steps.map((s, i) => ({ step: i + 1, title: s.title, output: s.output })),
+    kpis: (plan.kpis ?? []).map((k) => ({ name: k.name, unit: k.unit, target: k.target })),
+  };
+
+  const user = `
+${inputsBlock(plan.idea, plan.inputs, shape)}
+
+Plan shape: ${shape.steps} steps over ${shape.days} days
+
+Sprint: ${sprint}
+
+Previous sprint plan:
+${JSON.stringify(previous, null, 2)}
+
+${retroBlock(retro)}
+
+Return JSON in this exact shape:
+${PLAN_REPLY}
+`;
+
+  return [
+    { role: "system", content: system.trim() },
+    { role: "user", content: user.trim() },
+  ];
+}
+
+/**
+ * Asks for a scorecard over plans generated for different ideas or input
+ * variants. Plans are numbered from 0 so the reply can name the winner.
+ */
+export function buildScorecardMessages(plans: Plan[]): ChatMessage[] {
+  const system = `
+You are a pragmatic small-business advisor comparing plans for different business ideas.
+Return ONLY valid JSON. No markdown. No extra commentary.
+
+Score every plan on:
+- effort (1–5, 5 = most work to execute)
+- timeToRevenueDays (days until the first paying customer, as a whole number)
+- channelFit (1–5, 5 = the plan's channels reach its target customer best)
+- risk (1–5, 5 = riskiest)
+- notes (1–2 sentences on the trade-offs)
+
+Then pick the plan most worth committing to as "winner" (its number) and give the reason in 1–2 sentences.
+Be honest and comparative; do not give every plan the same scores.
+`;
+
+  const candidates = plans
+    .map((p, i) => {
+      const summary = {
+        steps: p.steps.map((s) => ({ title: s.title, summary: s.summary, output: s.output })),
+        kpis: (p.kpis ?? []).map((k) => ({ name: k.name, unit: k.unit, target: k.target })),
+      };
+      return `Plan ${i}:\n${inputsBlock(p.idea, p.inputs, planShape(p))}\n${JSON.stringify(summary, null, 2)}`;
+    })
+    .join("\n\n");
+
+  const user = `
+Plans to compare: ${plans.length}
+
+${candidates}
+
+Return JSON in this exact shape, with one entry per plan in order:
+{
+  "entries": [
+    { "effort": 3, "timeToRevenueDays": 14, "channelFit": 3, "risk": 3, "notes": "string" }
+  ],
+  "winner": 0,
+  "reason": "string"
+}
+`;
+
+  return [
+    { role: "system", content: system.trim() },
+    { role: "user", content: user.trim() },
+  ];
+}
+
+/**
+ * Asks for a "validate first" report on the idea: who buys it, what they use
+ * today, whether the price holds up, and the assumptions to test before
+ * committing to the plan.
+ */
+export function buildReportMessages(
+  idea: string,
+  inputs: Inputs,
+  shape: PlanShape,
+  template: StrategyTemplate
+): ChatMessage[] {
+  const system = `
+${template.role}
+You are reviewing the idea BEFORE any plan work starts. Be skeptical and specific.
+Return ONLY valid JSON. No markdown. No extra commentary.
+
+Return:
+- icp: the ideal customer profile, with a 1–2 sentence summary, 3–6 traits and 1–5 places to find them
+- competitors: 3–6 likely competitors or alternatives; kind is "direct" for businesses selling the same thing
+  and "alternative" for what customers do instead (DIY, spreadsheets, doing nothing); note is one sentence
+- pricing: a sanity check of the price point against what customers pay for the alternatives;
+  assessment is "too low", "fair", "too high", or "unknown" when no price point was given;
+  summary is 1–2 sentences and benchmarks lists 1–4 comparable prices
+- assumptions: the 3–5 assumptions the idea depends on most, each with a cheap test
+  (a few days and little or no money) and what result counts as a pass
+- verdict: "go" or "no-go" for the ${horizonLabel(shape.days)} plan, with the reason in 1–2 sentences
+`;
+
+  const user = `
+${inputsBlock(idea, inputs, shape)}
+
+Return JSON in this exact shape:
+{
+  "icp": { "summary": "string", "traits": ["string"], "whereToFind": ["string"] },
+  "competitors": [{ "name": "string", "kind": "direct", "note": "string" }],
+  "pricing": { "assessment": "fair", "summary": "string", "benchmarks": ["string"] },
+  "assumptions": [{ "assumption": "string", "test": "string", "passIf": "string" }],
+  "verdict": { "decision": "go", "reason": "string" }
+}
+`;
+
+  return [
+    { role: "system", content: system.trim() },
+    { role: "user", content: user.trim() },
+  ];
+}
+
+// The plan as the coach sees it: content only, without edit history or metadata.
+function coachPlanJson(plan: Plan) {
+  return JSON.stringify({
+    idea: plan.idea,
+    inputs: plan.inputs,
+    steps: plan.steps.map((st, i) => ({ step: i + 1, ...st })),
+    calendarDays: planDays(plan).map((d) => ({ day: d.day, date: d.date, title: d.focus, tasks: d.tasks })),
+    kpis: kpiProgress(plan).map((p) => ({ name: p.kpi.name, unit: p.kpi.unit, target: p.kpi.target, actual: p.total })),
+  });
+}
+
+function coachProgressBlock(plan: Plan, checks: Checks, day: number, now: Date) {
+  const progress = computeProgress(plan, checks, now);
+  const d = planDays(plan)[day - 1];
+  const tasks = d
+    ? d.tasks.map((t, i) => `  - [${checks[d.taskIds[i]] ? "x" : " "}] ${t}`).join("\n")
+    : "  (no tasks)";
+  const steps = progress.steps.map((st) => `  - Step ${st.index + 1} ${st.title}: ${st.done}/${st.total} tasks`).join("\n");
+  const step = stepForDay(plan, day);
+  return `
+Current day: ${day}${d ? ` (${d.dateLabel})` : ""}${step >= 0 ? `, working on step ${step + 1}` : ""}
+Tasks for this day:
+${tasks}
+
+Progress: ${progress.done}/${progress.total} tasks done (${progress.percent}%), ${progress.overdue} overdue days, ${progress.streak}-day streak
+${steps}
+`.trim();
+}
+
+/**
+ * Chat with the plan coach. The system message carries the plan, the chosen
+ * day's tasks and the checkbox progress; `history` ends with the question.
+ */
+export function buildCoachMessages(
+  plan: Plan,
+  checks: Checks,
+  day: number,
+  history: CoachMessage[],
+  now = new Date()
+): ChatMessage[] {
+  const template = getTemplate(plan.template);
+  const system = `
+${template.role} You are coaching the owner through the plan below, one day at a time.
+Answer in plain text or simple Markdown, short and practical. Ground every answer in the plan,
+the current day's tasks and the progress so far; do not invent a different plan.
+When asked to draft a deliverable (a step's output, an outreach script, landing page copy),
+write the full draft ready to use, filled in with the business details from the plan.
+If a checklist item is unclear, explain what "done" looks like and give a worked example.
+
+Plan JSON:
+${coachPlanJson(plan)}
+
+${coachProgressBlock(plan, checks, day, now)}
+`;
+
+  return [
+    { role: "system", content: system.trim() },
+    ...history.slice(-COACH_HISTORY_TURNS).map((m) => ({ role: m.role, content: m.content })),
+  ];
+}
+
+/**
+ * Asks for the deliverable in a step's `output`, written out in full: page
+ * sections, emails, posts, FAQ entries or a script.
+ */
+export function buildDraftMessages(plan: Plan, index: number): ChatMessage[] {
+  const template = getTemplate(plan.template);
+  const step = plan.steps[index];
+  const system = `
+${template.role} You are writing a deliverable the owner will use as-is.
+Return ONLY valid JSON. No markdown fences. No extra commentary.
+
+Pick the kind that fits the deliverable, one of: ${DRAFT_KINDS.join(", ")}.
+Write 2–${MAX_DRAFT_SECTIONS} sections, each with a heading and a body:
+- landing-page: one section per page section (hero, problem, offer, proof, FAQ, call to action)
+- email-sequence: one section per email; heading is the subject line, body is the full email
+- social-posts: one section per post; heading is the hook, body is the post text
+- faq: one section per question; heading is the question, body is the answer
+- script: one section per part of the call or message (opener, questions, pitch, objections, close)
+- document: one section per part of anything else
+
+Use the real business details below; no placeholders like [Your name] unless unavoidable.
+Bodies may use line breaks.
+`;
+
+  const user = `
+${inputsBlock(plan.idea, plan.inputs, planShape(plan))}
+
+Step ${index + 1}: ${step.title}
+${step.summary}
+How the step is done:
+${step.howTo.map((h) => `- ${h}`).join("\n")}
+
+Deliverable to write: ${step.output || step.title}
+
+Return JSON in this exact shape:
+{
+  "kind": "landing-page",
+  "title": "string",
+  "sections": [{ "heading": "string", "body": "string" }]
+}
+`;
+
+  return [
+    { role: "system", content: system.trim() },
+    { role: "user", content: user.trim() },
+  ];
+}
@@ -0,0 +1,277 @@
+import { estimateUsage, meterStream, type CompletionRequest, type LLMProvider, type TokenUsage } from "@/lib/llm";
+import type { Inputs } from "@/lib/plan";
+import { createMemoryStore } from "./memoryStore";
+import { RateLimitError, type LimitConfig, type Quota, type RateLimitStore } from "./types";
+
+export * from "./types";
+
+let store: RateLimitStore | null = null;
+
+/** Counter store for rate limits. RATE_LIMIT_STORE picks it; "memory" is the only one built in. */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const kind = (process.env.RATE_LIMIT_STORE || "memory").trim().toLowerCase();
+    if (kind !== "memory") throw new Error(`Unknown RATE_LIMIT_STORE "${kind}"`);
+    store = createMemoryStore();
+  }
+  return store;
+}
+
+function intEnv(v: string | undefined, fallback: number) {
+  const n = Number(v);
+  return v?.trim() && Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+/**
+ * Reads limits from the environment:
+ * - RATE_LIMIT_PER_MINUTE (default 6), per IP and per client
+ * - RATE_LIMIT_PER_DAY_IP (default 100), RATE_LIMIT_PER_DAY_USER (default 50)
+ * - DAILY_TOKEN_BUDGET (default 2,000,000 tokens; 0 turns it off)
+ * - MAX_IDEA_LENGTH (default 500), MAX_NOTES_LENGTH (default 2000),
+ *   MAX_INPUT_LENGTH (default 300) for the other inputs
+ * - MAX_REQUEST_LENGTH (default 200,000 characters) for bodies that carry a plan
+ * - TRUST_PROXY (default 0), how many proxies in front set X-Forwarded-For
+ * - RATE_LIMIT_SHARED_FACTOR (default 20), the IP limits' multiplier for
+ *   callers whose IP is unknown and who therefore share one bucket
+ */
+export function loadLimitConfig(env: Record<string, string | undefined> = process.env): LimitConfig {
+  return {
+    perMinute: intEnv(env.RATE_LIMIT_PER_MINUTE, 6),
+    perDayIp: intEnv(env.RATE_LIMIT_PER_DAY_IP, 100),
+    perDayUser: intEnv(env.RATE_LIMIT_PER_DAY_USER, 50),
+    dailyTokens: intEnv(env.DAILY_TOKEN_BUDGET, 2_000_000),
+    maxIdeaLength: intEnv(env.MAX_IDEA_LENGTH, 500),
+    maxNotesLength: intEnv(env.MAX_NOTES_LENGTH, 2000),
+    maxInputLength: intEnv(env.MAX_INPUT_LENGTH, 300),
+    maxRequestLength: intEnv(env.MAX_REQUEST_LENGTH, 200_000),
+    trustProxy: intEnv(env.TRUST_PROXY, 0),
+    sharedFactor: Math.max(1, intEnv(env.RATE_LIMIT_SHARED_FACTOR, 20)),
+  };
+}
+
+/** Logs once at server start when production runs without a trusted proxy. */
+export function warnIfNoTrustedProxy(env: Record<string, string | undefined> = process.env) {
+  if (env.NODE_ENV !== "production" || loadLimitConfig(env).trustProxy > 0) return;
+  console.warn(
+    "TRUST_PROXY is not set, so callers' IPs are unknown and they share one set of IP limits " +
+      "(RATE_LIMIT_SHARED_FACTOR times the per-IP ones). Set TRUST_PROXY to the number of proxies in front."
+  );
+}
+
+/**
+ * The caller's IP and, when the browser sent a sane one, its client id.
+ * Proxy headers are only read with TRUST_PROXY set, and then only the entry
+ * the outermost trusted proxy added, since anything left of it is whatever
+ * the caller sent. Route handlers get no socket address, so without it
+ * every caller shares the "shared" IP bucket, whose limits are scaled up in
+ * `limitsFor`. The client id is chosen by the browser, so it only adds limits
+ * on top of the IP ones.
+ */
+function clientKeys(req: Request, config: LimitConfig) {
+  let ip = "";
+  if (config.trustProxy > 0) {
+    const hops = (req.headers.get("x-forwarded-for") || "")
+      .split(",")
+      .map((h) => h.trim())
+      .filter(Boolean);
+    ip = hops.length ? hops[Math.max(0, hops.length - config.trustProxy)] : req.headers.get("x-real-ip")?.trim() || "";
+  }
+  const id = req.headers.get("x-client-id")?.trim() || "";
+  return { ip: ip || "shared", shared: !ip, user: /^[A-Za-z0-9_-]{8,64}$/.test(id) ? id : "" };
+}
+
+// Daily windows close at midnight UTC so every counter for a day resets together.
+function today(now: number) {
+  const date = new Date(now).toISOString().slice(0, 10);
+  const resetAt = Date.parse(`${date}T00:00:00.000Z`) + 86_400_000;
+  return { date, resetAt };
+}
+
+function waitLabel(seconds: number) {
+  if (seconds < 90) return `${seconds} seconds`;
+  if (seconds < 90 * 60) return `${Math.round(seconds / 60)} minutes`;
+  return `${Math.round(seconds / 3600)} hours`;
+}
+
+type Limit = { key: string; limit: number; windowMs: number; message: string; daily: boolean };
+
+// `scope` keeps counters apart for calls that are not model requests, e.g. "share:".
+function limitsFor(req: Request, config: LimitConfig, now: number, scope = ""): Limit[] {
+  const { ip, shared, user } = clientKeys(req, config);
+  const day = today(now);
+  const untilMidnight = day.resetAt - now;
+  // One busy caller must not lock everyone else out of a bucket they all share.
+  const factor = shared ? config.sharedFactor : 1;
+  const out: Limit[] = [
+    {
+      key: `${scope}ip:${ip}:min`,
+      limit: config.perMinute * factor,
+      windowMs: 60_000,
+      message: "Too many requests",
+      daily: false,
+    },
+    {
+      key: `${scope}ip:${ip}:day:${day.date}`,
+      limit: config.perDayIp * factor,
+      windowMs: untilMidnight,
+      message: "This network has used today's requests",
+      daily: true,
+    },
+  ];
+  if (user) {
+    out.push(
+      { key: `${scope}user:${user}:min`, limit: config.perMinute, windowMs: 60_000, message: "Too many requests", daily: false },
+      {
+        key: `${scope}user:${user}:day:${day.date}`,
+        limit: config.perDayUser,
+        windowMs: untilMidnight,
+        message: "You have used today's requests",
+        daily: true,
+      }
+    );
+  }
+  return out;
+}
+
+async function budgetLeft(config: LimitConfig, now: number) {
+  if (!config.dailyTokens) return true;
+  const used = await getRateLimitStore().peek(`tokens:${today(now).date}`);
+  return !used || used.count < config.dailyTokens;
+}
+
+function quotaFrom(limits: Limit[], counts: number[], budget: boolean, now: number): Quota {
+  const daily = limits.map((l, i) => ({ ...l, count: counts[i] })).filter((l) => l.daily);
+  return {
+    limit: Math.min(...daily.map((l) => l.limit)),
+    remaining: budget ? Math.max(0, Math.min(...daily.map((l) => l.limit - l.count))) : 0,
+    resetAt: new Date(today(now).resetAt).toISOString(),
+  };
+}
+
+/**
+ * Adds `cost` to every counter in `limits` and returns their counts. Each
+ * counter is incremented first and checked after, so two concurrent requests
+ * cannot both pass on the last slot; a request that went over any limit takes
+ * its counts back and throws RateLimitError.
+ */
+async function countAgainst(limits: Limit[], cost: number, now: number) {
+  const s = getRateLimitStore();
+  const counters = await Promise.all(limits.map((l) => s.increment(l.key, cost, l.windowMs)));
+  const blocked = limits
+    .map((l, i) => ({ ...l, counter: counters[i] }))
+    .filter((l) => l.counter.count > l.limit)
+    .sort((a, b) => b.counter.resetAt - a.counter.resetAt)[0];
+  if (blocked) {
+    await Promise.all(limits.map((l) => s.increment(l.key, -cost, l.windowMs)));
+    const wait = Math.max(1, Math.ceil((blocked.counter.resetAt - now) / 1000));
+    throw new RateLimitError(`${blocked.message}. Try again in ${waitLabel(wait)}.`, wait);
+  }
+  return counters.map((c) => c.count);
+}
+
+/**
+ * Counts `cost` model requests against the caller's per-minute and per-day
+ * limits and checks the daily token budget. Throws RateLimitError, without
+ * counting anything, when a limit would be passed.
+ */
+export async function takeRequest(req: Request, cost = 1): Promise<Quota> {
+  const config = loadLimitConfig();
+  const now = Date.now();
+
+  if (!(await budgetLeft(config, now))) {
+    const wait = Math.ceil((today(now).resetAt - now) / 1000);
+    throw new RateLimitError(`The daily model budget is used up. Try again in ${waitLabel(wait)}.`, wait);
+  }
+
+  const limits = limitsFor(req, config, now);
+  return quotaFrom(limits, await countAgainst(limits, cost, now), true, now);
+}
+
+/**
+ * Counts one plan share against the same per-minute and per-day limits as
+ * model requests, in counters of its own so sharing does not use up the
+ * model quota. Throws RateLimitError when a limit would be passed.
+ */
+export async function takeShare(req: Request): Promise<void> {
+  const now = Date.now();
+  await countAgainst(limitsFor(req, loadLimitConfig(), now, "share:"), 1, now);
+}
+
+/** The caller's daily quota, without counting a request. */
+export async function readQuota(req: Request): Promise<Quota> {
+  const config = loadLimitConfig();
+  const now = Date.now();
+  const limits = limitsFor(req, config, now);
+  const open = await Promise.all(limits.map((l) => getRateLimitStore().peek(l.key)));
+  return quotaFrom(limits, open.map((c) => c?.count ?? 0), await budgetLeft(config, now), now);
+}
+
+export function quotaHeaders(quota: Quota): Record<string, string> {
+  return {
+    "X-Quota-Limit": String(quota.limit),
+    "X-Quota-Remaining": String(quota.remaining),
+    "X-Quota-Reset": quota.resetAt,
+  };
+}
+
+const INPUT_NAMES: Record<keyof Inputs, string> = {
+  targetCustomer: "Target customer",
+  coreOffer: "Core offer",
+  differentiator: "Differentiator",
+  pricePoint: "Price point",
+  geography: "Geography",
+  goal: "Goal",
+  notes: "Notes",
+};
+
+/** A message for the idea or first input field over its length limit, or null. */
+export function checkInputLengths(idea: string, inputs: Inputs): string | null {
+  const config = loadLimitConfig();
+  if (idea.length > config.maxIdeaLength) {
+    return `Business idea is too long (${idea.length} characters, max ${config.maxIdeaLength})`;
+  }
+  for (const key of Object.keys(INPUT_NAMES) as (keyof Inputs)[]) {
+    const length = inputs[key]?.length ?? 0;
+    const max = key === "notes" ? config.maxNotesLength : config.maxInputLength;
+    if (length > max) return `${INPUT_NAMES[key]} is too long (${length} characters, max ${max})`;
+  }
+  return null;
+}
+
+/** A message when a posted plan (with drafts, checks or chat) is over MAX_REQUEST_LENGTH, or null. */
+export function checkRequestSize(body: unknown): string | null {
+  const max = loadLimitConfig().maxRequestLength;
+  const length = JSON.stringify(body ?? null).length;
+  return length > max ? `Request is too large (${length} characters, max ${max})` : null;
+}
+
+async function recordTokens(usage: TokenUsage) {
+  const now = Date.now();
+  const day = today(now);
+  await getRateLimitStore().increment(
+    `tokens:${day.date}`,
+    usage.promptTokens + usage.completionTokens,
+    day.resetAt - now
+  );
+}
+
+/**
+ * Wraps a provider so every call, repairs included, counts against the daily
+ * token budget. Uses the provider's token counts, or an estimate when it sends
+ * none; either way the result passed on always carries `usage`.
+ */
+export function withTokenBudget(provider: LLMProvider): LLMProvider {
+  const stream = provider.stream?.bind(provider);
+  return {
+    ...provider,
+    async complete(req) {
+      const result = await provider.complete(req);
+      const usage = result.usage ?? estimateUsage(req, result.text);
+      await recordTokens(usage);
+      return { ...result, usage };
+    },
+    ...(stream && {
+      stream: (req: CompletionRequest) => meterStream(req, stream(req), recordTokens),
+    }),
+  };
+}
@@ -0,0 +1,37 @@
+import type { Counter, RateLimitStore } from "./types";
+
+/** Counters in process memory. Limits reset on restart and are not shared between instances. */
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, Counter>();
+
+  function open(key: string, now: number) {
+    const c = counters.get(key);
+    if (c && c.resetAt > now) return c;
+    counters.delete(key);
+    return null;
+  }
+
+  // Drops closed windows now and then so the map does not grow without bound.
+  let lastSweep = 0;
+  function sweep(now: number) {
+    if (now - lastSweep < 60_000) return;
+    lastSweep = now;
+    for (const [k, c] of counters) if (c.resetAt <= now) counters.delete(k);
+  }
+
+  return {
+    async increment(key, amount, windowMs) {
+      const now = Date.now();
+      sweep(now);
+      const c = open(key, now) ?? { count: 0, resetAt: now + windowMs };
+      // Rolling back a request never takes a counter below zero.
+      const next = { count: Math.max(0, c.count + amount), resetAt: c.resetAt };
+      counters.set(key, next);
+      return next;
+    },
+
+    async peek(key) {
+      return open(key, Date.now());
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// A counter that resets when its window ends, e.g. requests from one IP today.
+export type Counter = {
+  count: number;
+  resetAt: number;        // epoch ms when the window closes
+};
+
+/**
+ * Where rate-limit counters live. Shaped after INCRBY + PEXPIRE so a
+ * Redis-compatible server can back it when several instances share limits.
+ */
+export interface RateLimitStore {
+  // Adds `amount` to the counter, opening a `windowMs` window if none is open.
+  // Must be atomic: the returned count decides whether a request is allowed.
+  increment(key: string, amount: number, windowMs: number): Promise<Counter>;
+  // The open counter for `key`, or null once its window has closed.
+  peek(key: string): Promise<Counter | null>;
+}
+
+export type LimitConfig = {
+  perMinute: number;      // requests per IP and per client in any one minute
+  perDayIp: number;
+  perDayUser: number;     // per client id, sent by the browser as X-Client-Id
+  dailyTokens: number;    // estimated model tokens per day across everyone; 0 = no budget
+  maxIdeaLength: number;
+  maxNotesLength: number;
+  maxInputLength: number; // every other input field
+  maxRequestLength: number; // JSON characters in a body that carries a whole plan
+  trustProxy: number;     // proxies in front that append to X-Forwarded-For; 0 = ignore it
+  sharedFactor: number;   // how many callers' worth of IP limits the shared bucket gets without one
+};
+
+// What the browser shows: model requests left today for this client.
+export type Quota = {
+  limit: number;
+  remaining: number;
+  resetAt: string;        // ISO time the daily counts start over (midnight UTC)
+};
+
+/** Raised when a limit is hit; `retryAfter` is in seconds. */
+export class RateLimitError extends Error {
+  retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = "RateLimitError";
+    this.retryAfter = retryAfter;
+  }
+}
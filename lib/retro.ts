@@ -0,0 +1,61 @@
+// End-of-sprint retrospectives and the chain of sprints they produce. A
+// reviewed plan keeps its retrospective; the follow-on plan points back at it
+// with `parentId`.
+
+import { planDays } from "@/lib/calendar";
+import { kpiProgress } from "@/lib/kpi";
+import type { Checks, Plan, Retrospective } from "@/lib/plan";
+
+/** Done and skipped tasks and KPI results from the calendar, plus the user's notes. */
+export function buildRetro(plan: Plan, checks: Checks, notes: string): Retrospective {
+  const done: string[] = [];
+  const skipped: string[] = [];
+  for (const d of planDays(plan)) {
+    d.tasks.forEach((t, i) => (checks[d.taskIds[i]] ? done : skipped).push(t));
+  }
+  return {
+    done,
+    skipped,
+    kpis: kpiProgress(plan).map((p) => ({
+      name: p.kpi.name,
+      unit: p.kpi.unit,
+      target: p.kpi.target,
+      actual: p.total,
+    })),
+    notes: notes.trim(),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function sprintNumber(plan: Plan) {
+  return plan.sprint ?? 1;
+}
+
+/**
+ * Every sprint in the plan's chain, oldest first: its ancestors, the plan
+ * itself, then the follow-ons. When a sprint was followed on more than once,
+ * the most recent follow-on continues the chain.
+ */
+export function sprintChain(plans: Plan[], plan: Plan): Plan[] {
+  const byId = new Map(plans.map((p) => [p.id, p]));
+  const chain = [plan];
+  const seen = new Set([plan.id]);
+
+  for (let p = plan; p.parentId && byId.has(p.parentId) && !seen.has(p.parentId); ) {
+    p = byId.get(p.parentId)!;
+    seen.add(p.id);
+    chain.unshift(p);
+  }
+
+  for (let p: Plan | undefined = plan; p; ) {
+    const parentId: string = p.id;
+    p = plans
+      .filter((c) => c.parentId === parentId && !seen.has(c.id))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+    if (p) {
+      seen.add(p.id);
+      chain.push(p);
+    }
+  }
+  return chain;
+}
@@ -0,0 +1,427 @@
+// The shape we expect back from the model, both as a JSON Schema for
+// providers with structured output and as a validator that names each problem.
+
+import { DEFAULT_SHAPE, DRAFT_KINDS, MAX_DRAFT_SECTIONS, type PlanShape } from "@/lib/plan";
+
+const STEP_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["title", "summary", "whatThisDoes", "howTo", "output"],
+  properties: {
+    title: { type: "string" },
+    summary: { type: "string" },
+    whatThisDoes: { type: "array", items: { type: "string" } },
+    howTo: { type: "array", items: { type: "string" } },
+    output: { type: "string" },
+  },
+} as const;
+
+const DAY_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["day", "step", "title", "tasks"],
+  properties: {
+    day: { type: "integer" },
+    step: { type: "integer" },
+    title: { type: "string" },
+    tasks: { type: "array", items: { type: "string" } },
+  },
+} as const;
+
+const KPI_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["name", "unit", "target"],
+  properties: {
+    name: { type: "string" },
+    unit: { type: "string" },
+    target: { type: "number" },
+  },
+} as const;
+
+export const PLAN_JSON_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["steps", "calendarDays", "kpis"],
+  properties: {
+    steps: { type: "array", items: STEP_SCHEMA },
+    calendarDays: { type: "array", items: DAY_SCHEMA },
+    kpis: { type: "array", items: KPI_SCHEMA },
+  },
+} as const;
+
+// Reply to a single-step regenerate/refine: the step plus its calendar days.
+export const STEP_REPLY_JSON_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["step", "calendarDays"],
+  properties: {
+    step: STEP_SCHEMA,
+    calendarDays: { type: "array", items: DAY_SCHEMA },
+  },
+} as const;
+
+// Reply to a compare request: one entry per plan, in order, and the pick.
+export const SCORECARD_JSON_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["entries", "winner", "reason"],
+  properties: {
+    entries: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["effort", "timeToRevenueDays", "channelFit", "risk", "notes"],
+        properties: {
+          effort: { type: "integer" },
+          timeToRevenueDays: { type: "integer" },
+          channelFit: { type: "integer" },
+          risk: { type: "integer" },
+          notes: { type: "string" },
+        },
+      },
+    },
+    winner: { type: "integer" },
+    reason: { type: "string" },
+  },
+} as const;
+
+// Reply to a "validate first" request: the report on the idea, before any plan work.
+export const REPORT_JSON_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["icp", "competitors", "pricing", "assumptions", "verdict"],
+  properties: {
+    icp: {
+      type: "object",
+      additionalProperties: false,
+      required: ["summary", "traits", "whereToFind"],
+      properties: {
+        summary: { type: "string" },
+        traits: { type: "array", items: { type: "string" } },
+        whereToFind: { type: "array", items: { type: "string" } },
+      },
+    },
+    competitors: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["name", "kind", "note"],
+        properties: {
+          name: { type: "string" },
+          kind: { type: "string", enum: ["direct", "alternative"] },
+          note: { type: "string" },
+        },
+      },
+    },
+    pricing: {
+      type: "object",
+      additionalProperties: false,
+      required: ["assessment", "summary", "benchmarks"],
+      properties: {
+        assessment: { type: "string", enum: ["too low", "fair", "too high", "unknown"] },
+        summary: { type: "string" },
+        benchmarks: { type: "array", items: { type: "string" } },
+      },
+    },
+    assumptions: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["assumption", "test", "passIf"],
+        properties: {
+          assumption: { type: "string" },
+          test: { type: "string" },
+          passIf: { type: "string" },
+        },
+      },
+    },
+    verdict: {
+      type: "object",
+      additionalProperties: false,
+      required: ["decision", "reason"],
+      properties: {
+        decision: { type: "string", enum: ["go", "no-go"] },
+        reason: { type: "string" },
+      },
+    },
+  },
+} as const;
+
+// Reply to a "Draft this" request: the step's deliverable in titled sections.
+export const DRAFT_JSON_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["kind", "title", "sections"],
+  properties: {
+    kind: { type: "string", enum: [...DRAFT_KINDS] },
+    title: { type: "string" },
+    sections: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["heading", "body"],
+        properties: {
+          heading: { type: "string" },
+          body: { type: "string" },
+        },
+      },
+    },
+  },
+} as const;
+
+type Raw = Record<string, unknown>;
+
+function isObj(v: unknown): v is Raw {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function filled(v: unknown) {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+function checkText(out: string[], where: string, v: unknown) {
+  if (!filled(v)) out.push(`${where} is missing or empty`);
+}
+
+function checkList(out: string[], where: string, v: unknown, min: number, max: number) {
+  if (!Array.isArray(v)) {
+    out.push(`${where} is not a list, expected ${min}–${max} items`);
+    return;
+  }
+  const n = v.filter(filled).length;
+  if (n < min || n > max) out.push(`${where} has ${n} items, expected ${min}–${max}`);
+}
+
+function checkStep(out: string[], where: string, s: unknown) {
+  if (!isObj(s)) {
+    out.push(`${where} is not an object`);
+    return;
+  }
+  checkText(out, `${where} title`, s.title);
+  checkText(out, `${where} summary`, s.summary);
+  checkList(out, `${where} whatThisDoes`, s.whatThisDoes, 2, 5);
+  checkList(out, `${where} howTo`, s.howTo, 6, 10);
+  checkText(out, `${where} output`, s.output);
+}
+
+function checkDay(out: string[], where: string, d: unknown, stepCount: number, expectedDay?: number) {
+  if (!isObj(d)) {
+    out.push(`${where} is not an object`);
+    return;
+  }
+  if (expectedDay !== undefined && d.day !== expectedDay) {
+    out.push(`${where} has day number ${String(d.day)}, expected ${expectedDay}`);
+  }
+  if (d.step !== undefined && (typeof d.step !== "number" || d.step < 1 || d.step > stepCount)) {
+    out.push(`${where} step is ${String(d.step)}, expected 1–${stepCount}`);
+  }
+  checkText(out, `${where} title`, d.title);
+  checkList(out, `${where} tasks`, d.tasks, 2, 4);
+}
+
+function checkKpis(out: string[], v: unknown) {
+  if (!Array.isArray(v)) {
+    out.push("kpis is missing, expected 2–4 KPIs");
+    return;
+  }
+  if (v.length < 2 || v.length > 4) out.push(`kpis has ${v.length} items, expected 2–4`);
+  v.forEach((k, i) => {
+    if (!isObj(k)) {
+      out.push(`kpi ${i + 1} is not an object`);
+      return;
+    }
+    checkText(out, `kpi ${i + 1} name`, k.name);
+    if (typeof k.target !== "number" || !(k.target > 0)) {
+      out.push(`kpi ${i + 1} target is ${JSON.stringify(k.target)}, expected a positive number`);
+    }
+  });
+}
+
+/** Returns one human-readable message per rule the plan breaks; empty when valid. */
+export function validatePlan(raw: unknown, shape: PlanShape = DEFAULT_SHAPE): string[] {
+  const out: string[] = [];
+  if (!isObj(raw)) return ["response is not a JSON object"];
+
+  if (!Array.isArray(raw.steps)) {
+    out.push(`steps is missing, expected ${shape.steps} steps`);
+  } else {
+    if (raw.steps.length !== shape.steps) {
+      out.push(`steps has ${raw.steps.length} items, expected ${shape.steps}`);
+    }
+    raw.steps.slice(0, shape.steps).forEach((s, i) => checkStep(out, `step ${i + 1}`, s));
+  }
+
+  if (!Array.isArray(raw.calendarDays)) {
+    out.push(`calendarDays is missing, expected ${shape.days} days`);
+  } else {
+    if (raw.calendarDays.length !== shape.days) {
+      out.push(`calendarDays has ${raw.calendarDays.length} items, expected ${shape.days}`);
+    }
+    raw.calendarDays
+      .slice(0, shape.days)
+      .forEach((d, i) => checkDay(out, `day ${i + 1}`, d, shape.steps, i + 1));
+  }
+
+  checkKpis(out, raw.kpis);
+  return out;
+}
+
+/** Validates a single-step reply that should carry `dayCount` calendar days. */
+export function validateStepReply(raw: unknown, dayCount: number, stepCount: number): string[] {
+  const out: string[] = [];
+  if (!isObj(raw)) return ["response is not a JSON object"];
+
+  checkStep(out, "step", raw.step);
+
+  if (!Array.isArray(raw.calendarDays)) {
+    out.push(`calendarDays is missing, expected ${dayCount} days`);
+  } else {
+    if (raw.calendarDays.length !== dayCount) {
+      out.push(`calendarDays has ${raw.calendarDays.length} items, expected ${dayCount}`);
+    }
+    raw.calendarDays
+      .slice(0, dayCount)
+      .forEach((d, i) => checkDay(out, `calendar day ${i + 1}`, d, stepCount));
+  }
+
+  return out;
+}
+
+function checkScore(out: string[], where: string, v: unknown) {
+  if (typeof v !== "number" || !Number.isInteger(v) || v < 1 || v > 5) {
+    out.push(`${where} is ${JSON.stringify(v)}, expected a whole number 1–5`);
+  }
+}
+
+/** Validates a scorecard for `count` compared plans. */
+export function validateScorecard(raw: unknown, count: number): string[] {
+  const out: string[] = [];
+  if (!isObj(raw)) return ["response is not a JSON object"];
+
+  if (!Array.isArray(raw.entries)) {
+    out.push(`entries is missing, expected ${count} entries`);
+  } else {
+    if (raw.entries.length !== count) out.push(`entries has ${raw.entries.length} items, expected ${count}`);
+    raw.entries.slice(0, count).forEach((e, i) => {
+      const where = `entry ${i + 1}`;
+      if (!isObj(e)) {
+        out.push(`${where} is not an object`);
+        return;
+      }
+      checkScore(out, `${where} effort`, e.effort);
+      checkScore(out, `${where} channelFit`, e.channelFit);
+      checkScore(out, `${where} risk`, e.risk);
+      if (typeof e.timeToRevenueDays !== "number" || e.timeToRevenueDays < 0) {
+        out.push(`${where} timeToRevenueDays is ${JSON.stringify(e.timeToRevenueDays)}, expected days as a number`);
+      }
+      checkText(out, `${where} notes`, e.notes);
+    });
+  }
+
+  if (typeof raw.winner !== "number" || !Number.isInteger(raw.winner) || raw.winner < 0 || raw.winner >= count) {
+    out.push(`winner is ${JSON.stringify(raw.winner)}, expected a plan index 0–${count - 1}`);
+  }
+  checkText(out, "reason", raw.reason);
+  return out;
+}
+
+/** Validates a "validate first" report. */
+export function validateReport(raw: unknown): string[] {
+  const out: string[] = [];
+  if (!isObj(raw)) return ["response is not a JSON object"];
+
+  if (!isObj(raw.icp)) {
+    out.push("icp is missing");
+  } else {
+    checkText(out, "icp summary", raw.icp.summary);
+    checkList(out, "icp traits", raw.icp.traits, 3, 6);
+    checkList(out, "icp whereToFind", raw.icp.whereToFind, 1, 5);
+  }
+
+  if (!Array.isArray(raw.competitors)) {
+    out.push("competitors is missing, expected 3–6 competitors or alternatives");
+  } else {
+    if (raw.competitors.length < 3 || raw.competitors.length > 6) {
+      out.push(`competitors has ${raw.competitors.length} items, expected 3–6`);
+    }
+    raw.competitors.forEach((c, i) => {
+      if (!isObj(c)) {
+        out.push(`competitor ${i + 1} is not an object`);
+        return;
+      }
+      checkText(out, `competitor ${i + 1} name`, c.name);
+      if (c.kind !== "direct" && c.kind !== "alternative") {
+        out.push(`competitor ${i + 1} kind is ${JSON.stringify(c.kind)}, expected "direct" or "alternative"`);
+      }
+      checkText(out, `competitor ${i + 1} note`, c.note);
+    });
+  }
+
+  if (!isObj(raw.pricing)) {
+    out.push("pricing is missing");
+  } else {
+    if (!["too low", "fair", "too high", "unknown"].includes(String(raw.pricing.assessment))) {
+      out.push(`pricing assessment is ${JSON.stringify(raw.pricing.assessment)}, expected too low, fair, too high or unknown`);
+    }
+    checkText(out, "pricing summary", raw.pricing.summary);
+  }
+
+  if (!Array.isArray(raw.assumptions)) {
+    out.push("assumptions is missing, expected 3–5 assumptions");
+  } else {
+    if (raw.assumptions.length < 3 || raw.assumptions.length > 5) {
+      out.push(`assumptions has ${raw.assumptions.length} items, expected 3–5`);
+    }
+    raw.assumptions.forEach((a, i) => {
+      if (!isObj(a)) {
+        out.push(`assumption ${i + 1} is not an object`);
+        return;
+      }
+      checkText(out, `assumption ${i + 1} assumption`, a.assumption);
+      checkText(out, `assumption ${i + 1} test`, a.test);
+      checkText(out, `assumption ${i + 1} passIf`, a.passIf);
+    });
+  }
+
+  if (!isObj(raw.verdict)) {
+    out.push("verdict is missing");
+  } else {
+    if (raw.verdict.decision !== "go" && raw.verdict.decision !== "no-go") {
+      out.push(`verdict decision is ${JSON.stringify(raw.verdict.decision)}, expected "go" or "no-go"`);
+    }
+    checkText(out, "verdict reason", raw.verdict.reason);
+  }
+  return out;
+}
+
+/** Validates a drafted deliverable. */
+export function validateDraft(raw: unknown): string[] {
+  const out: string[] = [];
+  if (!isObj(raw)) return ["response is not a JSON object"];
+
+  if (!DRAFT_KINDS.some((k) => k === raw.kind)) {
+    out.push(`kind is ${JSON.stringify(raw.kind)}, expected one of ${DRAFT_KINDS.join(", ")}`);
+  }
+  checkText(out, "title", raw.title);
+  if (!Array.isArray(raw.sections)) {
+    out.push(`sections is missing, expected 2–${MAX_DRAFT_SECTIONS} sections`);
+  } else {
+    if (raw.sections.length < 2 || raw.sections.length > MAX_DRAFT_SECTIONS) {
+      out.push(`sections has ${raw.sections.length} items, expected 2–${MAX_DRAFT_SECTIONS}`);
+    }
+    raw.sections.forEach((s, i) => {
+      if (!isObj(s)) {
+        out.push(`section ${i + 1} is not an object`);
+        return;
+      }
+      checkText(out, `section ${i + 1} heading`, s.heading);
+      checkText(out, `section ${i + 1} body`, s.body);
+    });
+  }
+  return out;
+}
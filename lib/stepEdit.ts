@@ -0,0 +1,81 @@
+// Swapping one step of a plan (and its calendar days) while keeping the
+// replaced version around so it can be restored.
+
+import { linkedDays } from "@/lib/calendar";
+import { newTaskId, type CalendarDay, type Plan, type PlanStep, type StepVersion } from "@/lib/plan";
+import { clearEdited, dayKey, STEP_FIELDS, stepFieldKey } from "@/lib/planEdit";
+
+function currentVersion(plan: Plan, index: number, linked: number[]): StepVersion {
+  return {
+    step: plan.steps[index],
+    days: (plan.calendarDays ?? []).filter((d) => linked.includes(d.day)),
+    replacedAt: new Date().toISOString(),
+  };
+}
+
+function withStep(
+  plan: Plan,
+  index: number,
+  step: PlanStep,
+  days: CalendarDay[],
+  linked: number[],
+  history: StepVersion[]
+): Plan {
+  const steps = plan.steps.map((s, i) => (i === index ? step : s));
+
+  // Replacement days fill the linked slots in order; day numbers stay put.
+  const calendarDays = plan.calendarDays?.map((d) => {
+    const k = linked.indexOf(d.day);
+    if (k < 0 || !days[k]) return d;
+    return { ...days[k], day: d.day, ...(d.step ? { step: d.step } : {}) };
+  });
+
+  const stepHistory = plan.steps.map((_, i) =>
+    i === index ? history : plan.stepHistory?.[i] ?? []
+  );
+
+  // The swapped-in content is no longer the hand-edited version.
+  const replaced = [
+    ...STEP_FIELDS.map((f) => stepFieldKey(index, f)),
+    ...linked.map(dayKey),
+  ];
+  return clearEdited({ ...plan, steps, calendarDays, stepHistory }, replaced);
+}
+
+/**
+ * Ids for freshly generated days. A task the model kept word for word keeps
+ * its old id (and so its checkbox); everything else is a new task.
+ */
+function carryTaskIds(before: CalendarDay[], days: CalendarDay[]): CalendarDay[] {
+  const ids = new Map<string, string[]>();
+  before.forEach((d) =>
+    d.tasks.forEach((t, i) => ids.set(t, [...(ids.get(t) ?? []), d.taskIds[i]]))
+  );
+  return days.map((d) => ({
+    ...d,
+    taskIds: d.tasks.map((t) => ids.get(t)?.shift() ?? newTaskId()),
+  }));
+}
+
+/** Replaces step `index`, pushing the old step and its days onto the history. */
+export function replaceStep(plan: Plan, index: number, step: PlanStep, days: CalendarDay[]): Plan {
+  const linked = linkedDays(plan, index);
+  const current = currentVersion(plan, index, linked);
+  const history = [...(plan.stepHistory?.[index] ?? []), current];
+  return withStep(plan, index, step, carryTaskIds(current.days, days), linked, history);
+}
+
+/**
+ * Brings back the most recent earlier version of step `index`. The version
+ * being replaced goes to the front of the history, so repeated restores cycle
+ * through every version instead of losing one.
+ */
+export function restoreStep(plan: Plan, index: number): Plan {
+  const history = plan.stepHistory?.[index] ?? [];
+  const prev = history[history.length - 1];
+  if (!prev) return plan;
+
+  const linked = linkedDays(plan, index);
+  const rest = [currentVersion(plan, index, linked), ...history.slice(0, -1)];
+  return withStep(plan, index, prev.step, prev.days, linked, rest);
+}
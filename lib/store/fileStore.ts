@@ -0,0 +1,73 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { coercePlan } from "@/lib/plan";
+import { isValidPlanId, type PlanStore, type StoredPlan } from "./types";
+
+/** One JSON file per plan under `dir`. Good enough for a single local server. */
+export function createFileStore(dir: string): PlanStore {
+  const file = (id: string) => {
+    if (!isValidPlanId(id)) throw new Error(`Invalid plan id "${id}"`);
+    return path.join(dir, `${id}.json`);
+  };
+
+  async function read(id: string): Promise<StoredPlan | null> {
+    try {
+      const raw = JSON.parse(await fs.readFile(file(id), "utf8"));
+      return {
+        plan: coercePlan(raw?.plan, "", {}),
+        checks: raw?.checks && typeof raw.checks === "object" ? raw.checks : {},
+        savedAt: typeof raw?.savedAt === "string" ? raw.savedAt : "",
+        ...(typeof raw?.editTokenHash === "string" && { editTokenHash: raw.editTokenHash }),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  return {
+    get: read,
+
+    async list() {
+      const names = await fs.readdir(dir).catch(() => [] as string[]);
+      const stored = await Promise.all(
+        names.filter((n) => n.endsWith(".json")).map((n) => read(n.slice(0, -5)))
+      );
+      return stored
+        .filter((s): s is StoredPlan => !!s)
+        .map((s) => ({
+          id: s.plan.id,
+          name: s.plan.name || s.plan.idea,
+          idea: s.plan.idea,
+          createdAt: s.plan.createdAt,
+          savedAt: s.savedAt,
+        }))
+        .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+    },
+
+    async save(plan, checks, editTokenHash) {
+      const existing = await read(plan.id);
+      const hash = editTokenHash ?? existing?.editTokenHash;
+      const stored: StoredPlan = {
+        plan,
+        checks: checks ?? existing?.checks ?? {},
+        savedAt: new Date().toISOString(),
+        ...(hash && { editTokenHash: hash }),
+      };
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename so a crash never leaves a half-written plan behind.
+      const target = file(plan.id);
+      await fs.writeFile(`${target}.tmp`, JSON.stringify(stored, null, 2), "utf8");
+      await fs.rename(`${target}.tmp`, target);
+      return stored;
+    },
+
+    async delete(id) {
+      try {
+        await fs.unlink(file(id));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
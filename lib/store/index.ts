@@ -0,0 +1,45 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import path from "path";
+import { createFileStore } from "./fileStore";
+import type { PlanStore, StoredPlan } from "./types";
+
+export * from "./types";
+
+let store: PlanStore | null = null;
+
+/** Server-side plan store. PLAN_STORE_DIR overrides the default `.data/plans`. */
+export function getPlanStore(): PlanStore {
+  if (!store) {
+    const dir = process.env.PLAN_STORE_DIR?.trim() || path.join(process.cwd(), ".data", "plans");
+    store = createFileStore(dir);
+  }
+  return store;
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** A new secret for changing a shared plan, and the hash the store keeps. */
+export function newEditToken() {
+  const token = randomBytes(24).toString("base64url");
+  return { token, hash: hashToken(token) };
+}
+
+/** The bearer token from the request's Authorization header, if any. */
+export function editTokenFrom(req: Request) {
+  return req.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? "";
+}
+
+/** Whether `token` may change or delete `stored`. Plans without a token hash are read-only. */
+export function canEdit(stored: StoredPlan, token: string) {
+  if (!stored.editTokenHash || !token) return false;
+  const given = Buffer.from(hashToken(token), "hex");
+  const expected = Buffer.from(stored.editTokenHash, "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** What the API returns for a stored plan: everything but the token hash. */
+export function publicPlan({ plan, checks, savedAt }: StoredPlan) {
+  return { plan, checks, savedAt };
+}
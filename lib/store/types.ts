@@ -0,0 +1,44 @@
+import type { Checks, Plan } from "@/lib/plan";
+
+// A plan as kept on the server, together with its calendar checkbox state.
+// `editTokenHash` is the SHA-256 of the secret that may change or delete it;
+// plans shared before edit tokens existed have none and are read-only.
+export type StoredPlan = {
+  plan: Plan;
+  checks: Checks;
+  savedAt: string;
+  editTokenHash?: string;
+};
+
+export type PlanSummary = {
+  id: string;
+  name: string;
+  idea: string;
+  createdAt: string;
+  savedAt: string;
+};
+
+export interface PlanStore {
+  get(id: string): Promise<StoredPlan | null>;
+  // Newest save first.
+  list(): Promise<PlanSummary[]>;
+  // Keeps the existing edit token hash when `editTokenHash` is not given.
+  save(plan: Plan, checks?: Checks, editTokenHash?: string): Promise<StoredPlan>;
+  delete(id: string): Promise<boolean>;
+}
+
+/** Plan ids become file names and URL segments, so keep them to a safe alphabet. */
+export function isValidPlanId(id: string) {
+  return /^[A-Za-z0-9_-]{1,100}$/.test(id);
+}
+
+/** Keeps completion times and legacy `true` entries; anything else means "not done". */
+export function coerceChecks(raw: unknown): Checks | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const out: Checks = {};
+  for (const [k, v] of Object.entries(raw)) {
+    if (v === true) out[k] = true;
+    else if (typeof v === "string" && !Number.isNaN(Date.parse(v))) out[k] = v;
+  }
+  return out;
+}
@@ -0,0 +1,39 @@
+// Strategy templates. Each JSON file in this folder is one template: the
+// prompt's role and emphasis, the calendar's fallback tasks and the input
+// placeholders. To add one, drop a file next to these and list it below.
+
+import type { Inputs } from "@/lib/plan";
+import agency from "./agency.json";
+import b2bSaas from "./b2b-saas.json";
+import creator from "./creator.json";
+import ecommerce from "./ecommerce.json";
+import general from "./general.json";
+import localService from "./local-service.json";
+
+export type StrategyTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  role: string;                // first line of the system prompt
+  emphasis: string[];          // extra priorities added to the prompt
+  // Tasks for calendar days whose step has no bullets, by phase of the plan.
+  fallbackTasks: {
+    positioning: string[];
+    acquisition: string[];
+    retention: string[];
+  };
+  placeholders: Partial<Record<keyof Inputs | "idea", string>>;
+};
+
+export const DEFAULT_TEMPLATE_ID = "general";
+
+export const TEMPLATES: StrategyTemplate[] = [general, localService, b2bSaas, ecommerce, creator, agency];
+
+export function findTemplate(id: string | undefined): StrategyTemplate | undefined {
+  return TEMPLATES.find((t) => t.id === id);
+}
+
+/** The plan's template, or the general one for unknown ids and older plans. */
+export function getTemplate(id: string | undefined): StrategyTemplate {
+  return findTemplate(id) ?? findTemplate(DEFAULT_TEMPLATE_ID)!;
+}
@@ -0,0 +1,33 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { UsageRecord, UsageStore } from "./types";
+
+/** One JSON-lines file per UTC day under `dir`. Appends only, so a crash loses at most the last line. */
+export function createFileUsageStore(dir: string): UsageStore {
+  return {
+    async append(record) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.appendFile(path.join(dir, `${record.at.slice(0, 10)}.jsonl`), JSON.stringify(record) + "\n", "utf8");
+    },
+
+    async list(sinceDay) {
+      const names = await fs.readdir(dir).catch(() => [] as string[]);
+      const days = names
+        .filter((n) => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(n) && n.slice(0, 10) >= sinceDay)
+        .sort();
+      const out: UsageRecord[] = [];
+      for (const name of days) {
+        const text = await fs.readFile(path.join(dir, name), "utf8").catch(() => "");
+        for (const line of text.split("\n")) {
+          if (!line.trim()) continue;
+          try {
+            out.push(JSON.parse(line));
+          } catch {
+            // a line cut short by a crash
+          }
+        }
+      }
+      return out;
+    },
+  };
+}
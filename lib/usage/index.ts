@@ -0,0 +1,196 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import path from "path";
+import { estimateUsage, meterStream, type CompletionRequest, type LLMProvider, type TokenUsage } from "@/lib/llm";
+import { addUsage, type PlanUsage } from "@/lib/plan";
+import { createFileUsageStore } from "./fileStore";
+import type { ModelPrice, UsageRecord, UsageStore, UsageTask } from "./types";
+
+export * from "./types";
+
+let store: UsageStore | null = null;
+
+/** Server-side usage ledger. USAGE_STORE_DIR overrides the default `.data/usage`. */
+export function getUsageStore(): UsageStore {
+  if (!store) {
+    const dir = process.env.USAGE_STORE_DIR?.trim() || path.join(process.cwd(), ".data", "usage");
+    store = createFileUsageStore(dir);
+  }
+  return store;
+}
+
+// List prices in US dollars per million tokens. LLM_PRICES adds to or overrides these.
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "mock-1": { input: 0, output: 0 },
+};
+
+/**
+ * The price table: DEFAULT_PRICES plus LLM_PRICES, a JSON object such as
+ * `{"llama3.1:8b": {"input": 0, "output": 0}}` in dollars per million tokens.
+ */
+export function loadPrices(env: Record<string, string | undefined> = process.env): Record<string, ModelPrice> {
+  const raw = env.LLM_PRICES?.trim();
+  if (!raw) return DEFAULT_PRICES;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("LLM_PRICES is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("LLM_PRICES must be a JSON object of model prices");
+  }
+
+  const prices = { ...DEFAULT_PRICES };
+  for (const [model, p] of Object.entries(parsed)) {
+    const { input, output } = (p ?? {}) as { input?: unknown; output?: unknown };
+    if (typeof input !== "number" || typeof output !== "number" || input < 0 || output < 0) {
+      throw new Error(`LLM_PRICES["${model}"] needs input and output prices per million tokens`);
+    }
+    prices[model] = { input, output };
+  }
+  return prices;
+}
+
+/** The price for `model`, matching dated snapshots like "gpt-4.1-mini-2025-04-14" by prefix. */
+export function priceFor(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const match = Object.keys(prices)
+    .filter((m) => model.startsWith(`${m}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : null;
+}
+
+export type MeteredProvider = LLMProvider & {
+  priced: boolean;
+  // What the calls so far used; resets the meter.
+  takeUsage(): PlanUsage | undefined;
+};
+
+/** Wraps a provider to add up token usage and cost across its calls. */
+export function meterUsage(provider: LLMProvider, prices = loadPrices()): MeteredProvider {
+  const price = priceFor(provider.model, prices);
+  let total: PlanUsage | undefined;
+
+  const add = (u: TokenUsage) => {
+    total = addUsage(total, {
+      calls: 1,
+      promptTokens: u.promptTokens,
+      completionTokens: u.completionTokens,
+      cost: price ? (u.promptTokens * price.input + u.completionTokens * price.output) / 1_000_000 : 0,
+      ...(u.estimated && { estimated: true }),
+    });
+  };
+
+  const stream = provider.stream?.bind(provider);
+  return {
+    ...provider,
+    async complete(req) {
+      const result = await provider.complete(req);
+      add(result.usage ?? estimateUsage(req, result.text));
+      return result;
+    },
+    ...(stream && {
+      stream: (req: CompletionRequest) => meterStream(req, stream(req), add),
+    }),
+    priced: !!price,
+    takeUsage() {
+      const usage = total;
+      total = undefined;
+      return usage;
+    },
+  };
+}
+
+/**
+ * Writes what `provider` used to the ledger against `plan` and returns it for
+ * the response. Nothing is written when no call was made.
+ */
+export async function recordUsage(
+  provider: MeteredProvider,
+  task: UsageTask,
+  plan: { id: string; idea: string }
+): Promise<PlanUsage | undefined> {
+  const usage = provider.takeUsage();
+  if (!usage) return undefined;
+  try {
+    await getUsageStore().append({
+      ...usage,
+      at: new Date().toISOString(),
+      task,
+      planId: plan.id,
+      idea: plan.idea.slice(0, 200),
+      model: provider.model,
+      priced: provider.priced,
+    });
+  } catch {
+    // The model call already happened; a lost ledger line should not fail it.
+  }
+  return usage;
+}
+
+export type UsageSummary = {
+  total?: PlanUsage;
+  byDay: { day: string; usage: PlanUsage }[];
+  byPlan: { planId: string; idea: string; lastAt: string; usage: PlanUsage }[];
+  // Models that were used but have no price, so their cost shows as 0.
+  unpriced: string[];
+};
+
+/** Totals for the admin usage page, newest day first and costliest plan first. */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  let total: PlanUsage | undefined;
+  const days = new Map<string, PlanUsage>();
+  const plans = new Map<string, UsageSummary["byPlan"][number]>();
+  const unpriced = new Set<string>();
+
+  for (const r of records) {
+    const usage: PlanUsage = {
+      calls: r.calls,
+      promptTokens: r.promptTokens,
+      completionTokens: r.completionTokens,
+      cost: r.cost,
+      ...(r.estimated && { estimated: true }),
+    };
+    total = addUsage(total, usage);
+
+    const day = r.at.slice(0, 10);
+    days.set(day, addUsage(days.get(day), usage)!);
+
+    const row = plans.get(r.planId);
+    plans.set(r.planId, {
+      planId: r.planId,
+      idea: r.idea || row?.idea || "",
+      lastAt: r.at,
+      usage: addUsage(row?.usage, usage)!,
+    });
+
+    if (!r.priced) unpriced.add(r.model);
+  }
+
+  return {
+    total,
+    byDay: [...days].map(([day, usage]) => ({ day, usage })).sort((a, b) => b.day.localeCompare(a.day)),
+    byPlan: [...plans.values()].sort((a, b) => b.usage.cost - a.usage.cost || b.usage.calls - a.usage.calls),
+    unpriced: [...unpriced].sort(),
+  };
+}
+
+/** The summary for the last `days` UTC days, today included, and the first of them. */
+export async function loadUsageSummary(days: number): Promise<UsageSummary & { since: string }> {
+  const since = new Date(Date.now() - (days - 1) * 86_400_000).toISOString().slice(0, 10);
+  return { since, ...summarizeUsage(await getUsageStore().list(since)) };
+}
+
+/** Whether `token` matches ADMIN_TOKEN. Without ADMIN_TOKEN every token is refused. */
+export function isAdminToken(token: string | null | undefined) {
+  const expected = process.env.ADMIN_TOKEN?.trim();
+  if (!expected || !token) return false;
+  const digest = (s: string) => createHash("sha256").update(s).digest();
+  return timingSafeEqual(digest(token), digest(expected));
+}
@@ -0,0 +1,25 @@
+import type { PlanUsage } from "@/lib/plan";
+
+// The route a ledger line was written for.
+export type UsageTask = "generate" | "next" | "compare" | "step" | "report" | "draft" | "coach";
+
+// One line of the usage ledger: everything one route call spent on the model,
+// repairs included. `planId` is empty when no plan came out of it (a failed
+// generation or a compare scorecard).
+export type UsageRecord = PlanUsage & {
+  at: string; // ISO time
+  task: UsageTask;
+  planId: string;
+  idea: string;
+  model: string;
+  priced: boolean; // false when the model has no entry in the price table
+};
+
+export interface UsageStore {
+  append(record: UsageRecord): Promise<void>;
+  // Records from `sinceDay` (YYYY-MM-DD, UTC) on, oldest first.
+  list(sinceDay: string): Promise<UsageRecord[]>;
+}
+
+// US dollars per million tokens.
+export type ModelPrice = { input: number; output: number };
@@ -0,0 +1,28 @@
+import { planFromResult, planRequest } from "@/lib/generate";
+import { createMockProvider } from "@/lib/llm/mock";
+import type { Inputs, PlanShape } from "@/lib/plan";
+import { buildPlanMessages } from "@/lib/prompt";
+import { getTemplate } from "@/lib/templates";
+
+// Every field present, as the generate route reads them from the request.
+export const INPUTS: Inputs = {
+  targetCustomer: "Busy dog owners",
+  coreOffer: "Daily group walks",
+  differentiator: "",
+  pricePoint: "$25 a walk",
+  geography: "",
+  goal: "10 regular clients",
+  notes: "",
+};
+
+/** The mock provider's reply to a plan request, parsed, as a model would send it. */
+export async function mockReply(idea = "Dog walking", shape: PlanShape = { steps: 3, days: 14 }) {
+  const template = getTemplate(undefined);
+  const result = await createMockProvider().complete(planRequest(buildPlanMessages(idea, INPUTS, shape, template)));
+  return JSON.parse(result.text) as Record<string, unknown>;
+}
+
+export async function mockPlan(idea = "Dog walking", shape: PlanShape = { steps: 3, days: 14 }) {
+  const parsed = await mockReply(idea, shape);
+  return planFromResult({ parsed, repairs: 0, violations: [] } as never, idea, INPUTS, shape, getTemplate(undefined).id);
+}
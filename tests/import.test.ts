@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { exportBlocks, toJsonExport, toMarkdown } from "@/lib/export";
+import { ImportError, parseImport } from "@/lib/import";
+import type { Checks } from "@/lib/plan";
+import { mockPlan } from "./fixtures";
+
+async function checkedPlan() {
+  const plan = await mockPlan();
+  plan.kpis![0].actuals = { 1: 2, 3: 1.5 };
+  const [day1, day2] = plan.calendarDays!;
+  const checks: Checks = { [day1.taskIds[1]]: true, [day2.taskIds[0]]: "2026-01-02T10:00:00.000Z" };
+  return { plan, checks };
+}
+
+describe("parseImport", () => {
+  it("reads the JSON export back exactly", async () => {
+    const { plan, checks } = await checkedPlan();
+    const back = parseImport(JSON.stringify(toJsonExport(plan, checks)));
+    assert.deepEqual(back.plan, plan);
+    assert.deepEqual(back.checks, checks);
+  });
+
+  it("reads the Markdown export back", async () => {
+    const { plan, checks } = await checkedPlan();
+    const { plan: back, checks: backChecks } = parseImport(toMarkdown(exportBlocks(plan, "plan", checks)));
+
+    assert.equal(back.idea, plan.idea);
+    assert.equal(back.createdAt, plan.createdAt);
+    assert.deepEqual(back.inputs, plan.inputs);
+    assert.deepEqual(
+      back.steps.map((s) => [s.title, s.howTo, s.output]),
+      plan.steps.map((s) => [s.title, s.howTo, s.output])
+    );
+    assert.deepEqual(
+      back.calendarDays?.map((d) => d.tasks),
+      plan.calendarDays?.map((d) => d.tasks)
+    );
+    assert.deepEqual(
+      back.kpis?.map(({ name, unit, target, actuals }) => ({ name, unit, target, actuals })),
+      plan.kpis?.map(({ name, unit, target, actuals }) => ({ name, unit, target, actuals }))
+    );
+
+    // Checked tasks come back checked at the same positions.
+    const done = back.calendarDays!.flatMap((d) => d.taskIds.filter((id) => backChecks[id]));
+    assert.deepEqual(done, [back.calendarDays![0].taskIds[1], back.calendarDays![1].taskIds[0]]);
+  });
+
+  it("refuses a calendar-only Markdown export", async () => {
+    const { plan } = await checkedPlan();
+    assert.throws(() => parseImport(toMarkdown(exportBlocks(plan, "calendar"))), ImportError);
+  });
+
+  it("refuses text without steps", () => {
+    assert.throws(() => parseImport("Just some notes"), /No steps found/);
+    assert.throws(() => parseImport("   "), /Nothing to import/);
+  });
+});
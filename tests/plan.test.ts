@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { planDays } from "@/lib/calendar";
+import { coercePlan, legacyTaskId } from "@/lib/plan";
+import { mockPlan } from "./fixtures";
+
+const STEP = { title: "Launch", summary: "Go", whatThisDoes: ["a", "b"], howTo: ["c"], output: "A page" };
+
+describe("coercePlan", () => {
+  it("gives tasks saved without ids the positional ids old checks were keyed by", () => {
+    const plan = coercePlan(
+      {
+        idea: "Bakery",
+        steps: [STEP],
+        calendarDays: [
+          { day: 1, title: "One", tasks: ["a", "b"] },
+          { day: 2, title: "Two", tasks: ["c", "", "d"] },
+        ],
+      },
+      "",
+      {}
+    );
+    assert.deepEqual(plan.calendarDays?.map((d) => d.taskIds), [
+      [legacyTaskId(1, 0), legacyTaskId(1, 1)],
+      [legacyTaskId(2, 0), legacyTaskId(2, 1)],
+    ]);
+    // A check saved as "d2_t1" before ids existed still finds the task at that position.
+    assert.equal(planDays(plan)[1].taskIds[1], "d2_t1");
+  });
+
+  it("keeps stored ids and replaces duplicates", () => {
+    const plan = coercePlan(
+      {
+        idea: "Bakery",
+        steps: [STEP],
+        calendarDays: [
+          { day: 1, title: "One", tasks: ["a", "b"], taskIds: ["t_a", "t_b"] },
+          { day: 2, title: "Two", tasks: ["c"], taskIds: ["t_a"] },
+        ],
+      },
+      "",
+      {}
+    );
+    const [one, two] = plan.calendarDays!;
+    assert.deepEqual(one.taskIds, ["t_a", "t_b"]);
+    assert.notEqual(two.taskIds[0], "t_a");
+  });
+
+  it("reads the old goal14Day input as goal", () => {
+    const plan = coercePlan({ idea: "Bakery", steps: [STEP], inputs: { goal14Day: "5 orders" } }, "", {});
+    assert.equal(plan.inputs.goal, "5 orders");
+  });
+
+  it("round-trips a generated plan unchanged", async () => {
+    const plan = await mockPlan();
+    assert.deepEqual(coercePlan(JSON.parse(JSON.stringify(plan)), "", {}), plan);
+  });
+});
+
+describe("planFromResult", () => {
+  it("gives every task of a model calendar a fresh id", async () => {
+    const ids = (await mockPlan()).calendarDays!.flatMap((d) => d.taskIds);
+    assert.equal(new Set(ids).size, ids.length);
+    assert.ok(ids.every((id) => id.startsWith("t_")));
+  });
+
+  it("shows empty days with a placeholder id no task can have", async () => {
+    const plan = await mockPlan();
+    plan.calendarDays![0] = { ...plan.calendarDays![0], tasks: [], taskIds: [] };
+    assert.deepEqual(planDays(plan)[0].taskIds, ["placeholder:d1"]);
+  });
+});
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { checkInputLengths, RateLimitError, readQuota, takeRequest } from "@/lib/ratelimit";
+
+const ENV = { ...process.env };
+
+// Each test uses its own client ids and IPs, since the memory store is shared by the process.
+function request(client: string, ip = "") {
+  const headers: Record<string, string> = {};
+  if (client) headers["x-client-id"] = client;
+  if (ip) headers["x-forwarded-for"] = ip;
+  return new Request("http://localhost/api/generate", { headers });
+}
+
+afterEach(() => {
+  process.env = { ...ENV };
+});
+
+describe("takeRequest", () => {
+  it("takes back every count when one limit is over", async () => {
+    process.env.TRUST_PROXY = "1";
+    process.env.RATE_LIMIT_PER_DAY_USER = "2";
+    process.env.RATE_LIMIT_PER_DAY_IP = "10";
+
+    await takeRequest(request("client-rollback", "10.0.0.1"));
+    await takeRequest(request("client-rollback", "10.0.0.1"));
+    await assert.rejects(takeRequest(request("client-rollback", "10.0.0.1")), RateLimitError);
+
+    // The refused request left the IP's daily count at two.
+    assert.equal((await readQuota(request("", "10.0.0.1"))).remaining, 8);
+  });
+
+  it("lets only as many concurrent requests through as the limit allows", async () => {
+    process.env.TRUST_PROXY = "1";
+    process.env.RATE_LIMIT_PER_MINUTE = "3";
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () => takeRequest(request("client-burst", "10.0.0.2")))
+    );
+    assert.equal(results.filter((r) => r.status === "fulfilled").length, 3);
+  });
+
+  it("ignores X-Forwarded-For unless a proxy is trusted", async () => {
+    process.env.RATE_LIMIT_PER_DAY_IP = "100";
+    process.env.RATE_LIMIT_SHARED_FACTOR = "20";
+    const before = (await readQuota(request("", "10.0.0.3"))).remaining;
+
+    // Different IP headers all land in the one shared bucket, which is 20 callers' worth.
+    await takeRequest(request("client-spoof-a", "10.0.0.3"));
+    await takeRequest(request("client-spoof-b", "10.0.0.4"));
+    const after = await readQuota(request("", "10.0.0.5"));
+    assert.equal(after.limit, 2000);
+    assert.equal(after.remaining, before - 2);
+  });
+
+  it("reads the client IP the trusted proxy added, not what the caller sent", async () => {
+    process.env.TRUST_PROXY = "1";
+    process.env.RATE_LIMIT_PER_MINUTE = "1";
+
+    await takeRequest(request("client-hop-a", "1.1.1.1, 10.0.0.6"));
+    await assert.rejects(takeRequest(request("client-hop-b", "2.2.2.2, 10.0.0.6")), /Too many requests/);
+  });
+});
+
+describe("checkInputLengths", () => {
+  it("caps every input field", () => {
+    process.env.MAX_INPUT_LENGTH = "5";
+    assert.equal(checkInputLengths("idea", { geography: "Berlin" }), "Geography is too long (6 characters, max 5)");
+    assert.equal(checkInputLengths("idea", { notes: "longer notes" }), null);
+  });
+});
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { validateDraft, validatePlan, validateStepReply } from "@/lib/schema";
+import { mockReply } from "./fixtures";
+
+describe("validatePlan", () => {
+  it("accepts a well-formed reply for each shape", async () => {
+    assert.deepEqual(validatePlan(await mockReply(), { steps: 3, days: 14 }), []);
+    assert.deepEqual(validatePlan(await mockReply("Bakery", { steps: 5, days: 30 }), { steps: 5, days: 30 }), []);
+  });
+
+  it("rejects anything that is not an object", () => {
+    assert.deepEqual(validatePlan("steps"), ["response is not a JSON object"]);
+    assert.deepEqual(validatePlan([]), ["response is not a JSON object"]);
+  });
+
+  it("reports missing lists against the requested shape", () => {
+    const out = validatePlan({}, { steps: 4, days: 7 });
+    assert.ok(out.includes("steps is missing, expected 4 steps"));
+    assert.ok(out.includes("calendarDays is missing, expected 7 days"));
+    assert.ok(out.includes("kpis is missing, expected 2–4 KPIs"));
+  });
+
+  it("names the step, day and KPI that break a rule", async () => {
+    const reply = await mockReply();
+    const steps = reply.steps as Record<string, unknown>[];
+    const days = reply.calendarDays as Record<string, unknown>[];
+    const kpis = reply.kpis as Record<string, unknown>[];
+    steps[1] = { ...steps[1], howTo: ["only one"] };
+    days[2] = { ...days[2], day: 9 };
+    kpis[0] = { ...kpis[0], target: 0 };
+
+    assert.deepEqual(validatePlan(reply), [
+      "step 2 howTo has 1 items, expected 6–10",
+      "day 3 has day number 9, expected 3",
+      "kpi 1 target is 0, expected a positive number",
+    ]);
+  });
+
+  it("counts steps and days beyond the shape", async () => {
+    const reply = await mockReply();
+    reply.steps = [...(reply.steps as unknown[]), (reply.steps as unknown[])[0]];
+    assert.deepEqual(validatePlan(reply), ["steps has 4 items, expected 3"]);
+  });
+});
+
+describe("validateStepReply", () => {
+  it("expects one calendar day per linked day, each pointing at a real step", async () => {
+    const reply = await mockReply();
+    const step = (reply.steps as unknown[])[0];
+    const day = { ...(reply.calendarDays as Record<string, unknown>[])[0], step: 5 };
+    assert.deepEqual(validateStepReply({ step, calendarDays: [day] }, 2, 3), [
+      "calendarDays has 1 items, expected 2",
+      "calendar day 1 step is 5, expected 1–3",
+    ]);
+  });
+});
+
+describe("validateDraft", () => {
+  it("rejects an unknown kind", () => {
+    const out = validateDraft({ kind: "poem", title: "x", sections: [] });
+    assert.match(out[0], /^kind is "poem", expected one of /);
+  });
+});